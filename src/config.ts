@@ -0,0 +1,117 @@
+import type { AsyncConstructor, Box, Constructor, Token } from "./index";
+
+export type ConfigValues = Record<string, unknown>;
+
+// values without a parser are read as strings, so their default is a string too
+export type ConfigKey<T> =
+  | { key: string; parse: (value: unknown) => T; default?: T }
+  | { key: string; parse?: undefined; default?: string };
+
+export type ConfigSchema = Record<string, ConfigKey<any>>;
+
+export type ConfigOf<S extends ConfigSchema> = {
+  [K in keyof S]: S[K] extends { parse: (value: any) => infer T } ? T : string;
+};
+
+export type ConfigOptions<Source> = {
+  name?: string;
+  source?: Source;
+};
+
+export type ConfigIssue = {
+  name: string;
+  key: string;
+  message: string;
+};
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(`Invalid config: ${issues.map(formatIssue).join(", ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// default source for config providers, bind it to read from elsewhere
+export const ConfigSource: Token<ConfigValues> = {
+  name: "ConfigSource",
+  init: () => ({ ...globalThis.process?.env }),
+};
+
+export function envSource(
+  env: Record<string, string | undefined>
+): Constructor<ConfigValues> {
+  return { name: "envSource", init: () => ({ ...env }) };
+}
+
+export function jsonFile(path: string): AsyncConstructor<ConfigValues> {
+  return {
+    name: `jsonFile(${path})`,
+    initAsync: async () => {
+      // loaded on demand so the core does not depend on node
+      const { readFile } = await import("node:fs/promises");
+      return JSON.parse(await readFile(path, "utf8"));
+    },
+  };
+}
+
+export function config<S extends ConfigSchema>(
+  schema: S,
+  options?: ConfigOptions<Constructor<ConfigValues>>
+): Constructor<ConfigOf<S>>;
+export function config<S extends ConfigSchema>(
+  schema: S,
+  options: ConfigOptions<AsyncConstructor<ConfigValues>>
+): AsyncConstructor<ConfigOf<S>>;
+export function config<S extends ConfigSchema>(
+  schema: S,
+  options: ConfigOptions<
+    Constructor<ConfigValues> | AsyncConstructor<ConfigValues>
+  > = {}
+): Constructor<ConfigOf<S>> | AsyncConstructor<ConfigOf<S>> {
+  const name = options.name ?? "Config";
+  const source = options.source ?? ConfigSource;
+  if ("initAsync" in source) {
+    return {
+      name,
+      initAsync: async (box: Box) => parse(schema, await box.getAsync(source)),
+    };
+  }
+  return { name, init: (box: Box) => parse(schema, box.get(source)) };
+}
+
+function parse<S extends ConfigSchema>(
+  schema: S,
+  values: ConfigValues
+): ConfigOf<S> {
+  const config: Record<string, unknown> = {};
+  const issues: ConfigIssue[] = [];
+
+  // collect every issue so they can be fixed at once
+  for (const [name, entry] of Object.entries(schema)) {
+    const value = values[entry.key];
+    if (value === undefined) {
+      if ("default" in entry) config[name] = entry.default;
+      else issues.push({ name, key: entry.key, message: "missing" });
+      continue;
+    }
+
+    try {
+      config[name] = entry.parse ? entry.parse(value) : parseString(value);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      issues.push({ name, key: entry.key, message: `invalid (${message})` });
+    }
+  }
+
+  if (issues.length) throw new ConfigError(issues);
+  return config as ConfigOf<S>;
+}
+
+function parseString(value: unknown): string {
+  if (typeof value === "string") return value;
+  throw new Error(`expected a string, got ${typeof value}`);
+}
+
+function formatIssue(issue: ConfigIssue): string {
+  return `${issue.key} is ${issue.message}`;
+}
@@ -0,0 +1,53 @@
+import type { Box, ConstructorOptions, Resolved } from "./index";
+
+export function injectable<T>(options: ConstructorOptions<T> = {}) {
+  return (
+    target: { new (): T },
+    context: ClassDecoratorContext<{ new (): T }>
+  ): void => {
+    if (Object.hasOwn(target, "init")) {
+      throw new Error(`@injectable class ${context.name} cannot define init`);
+    }
+
+    const { name, ...rest } = options;
+    if (name) Object.defineProperty(target, "name", { value: name });
+    Object.assign(target, rest);
+
+    // subclasses inherit init, so construct whatever class it is called on
+    Object.defineProperty(target, "init", {
+      configurable: true,
+      writable: true,
+      value: function (this: { new (): T }, box: Box): T {
+        const previous = injecting;
+        injecting = box;
+        try {
+          return new this();
+        } finally {
+          injecting = previous;
+        }
+      },
+    });
+  };
+}
+
+export function inject<A>(dependency: A) {
+  return <This>(
+    _: undefined,
+    context: ClassFieldDecoratorContext<This, Injected<A>>
+  ) => {
+    // the initializer replaces the field value with the dependency
+    return (): Injected<A> => {
+      if (!injecting) {
+        const name = String(context.name);
+        throw new Error(
+          `Cannot inject ${name}, only @injectable classes created by a box are injected`
+        );
+      }
+      return injecting.resolve({ value: dependency }).value as Injected<A>;
+    };
+  };
+}
+
+type Injected<A> = Resolved<[A]>[0];
+
+let injecting: Box | undefined;
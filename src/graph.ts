@@ -0,0 +1,44 @@
+import type { Lifetime } from "./index";
+
+export type DependencyGraph = { nodes: GraphNode[]; edges: GraphEdge[] };
+
+export type GraphNode = { id: string; name: string; lifetime: Lifetime };
+
+export type GraphEdge = { from: string; to: string; cached: boolean };
+
+export function graphToDot(graph: DependencyGraph): string {
+  const lines = ["digraph getbox {"];
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.id)} [label=${quote(node.name)}];`);
+  }
+  for (const edge of graph.edges) {
+    // dashed edges create a new instance instead of using the cache
+    const style = edge.cached ? "" : " [style=dashed]";
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${style};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+export function graphToMermaid(graph: DependencyGraph): string {
+  // mermaid ids must be plain identifiers so nodes are referenced by index
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+
+  const lines = ["graph TD"];
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.id)}["${node.name.replace(/"/g, "#quot;")}"]`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.cached ? "-->" : "-.->";
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  }
+  return lines.join("\n");
+}
+
+export function graphToJSON(graph: DependencyGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
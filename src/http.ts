@@ -0,0 +1,113 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Box, factory, token } from "./index";
+
+export type HttpOptions = {
+  // called when disposing a request box fails
+  onDisposeError?(error: unknown): void;
+};
+
+export type NodeListener = (
+  request: IncomingMessage,
+  response: ServerResponse
+) => void | Promise<void>;
+
+export type ExpressMiddleware = (
+  request: IncomingMessage,
+  response: ServerResponse,
+  next: (error?: unknown) => void
+) => void;
+
+export type FastifyLike = {
+  addHook(
+    name: "onRequest",
+    hook: (
+      request: { raw: IncomingMessage },
+      reply: { raw: ServerResponse },
+      done: () => void
+    ) => void
+  ): unknown;
+};
+
+export type HonoMiddleware = (
+  context: { req: unknown },
+  next: () => Promise<void>
+) => Promise<void>;
+
+// the framework request object of the current request box
+export const HttpRequest = token<unknown>("HttpRequest");
+
+export function boxOf(request: object): Box {
+  const box = boxes.get(request);
+  if (!box) throw new Error("No request box, is the getbox adapter installed?");
+  return box;
+}
+
+export function nodeHandler(
+  box: Box,
+  listener: NodeListener,
+  options?: HttpOptions
+): NodeListener {
+  return (request, response) => {
+    const requestBox = open(box, request, request, options);
+    response.once("close", () => requestBox.close());
+    return requestBox.box.run(() => listener(request, response));
+  };
+}
+
+export function expressMiddleware(
+  box: Box,
+  options?: HttpOptions
+): ExpressMiddleware {
+  return (request, response, next) => {
+    const requestBox = open(box, request, request, options);
+    response.once("close", () => requestBox.close());
+    requestBox.box.run(() => next());
+  };
+}
+
+export function fastifyHooks(
+  fastify: FastifyLike,
+  box: Box,
+  options?: HttpOptions
+): void {
+  fastify.addHook("onRequest", (request, reply, done) => {
+    const requestBox = open(box, request, request, options);
+    reply.raw.once("close", () => requestBox.close());
+    requestBox.box.run(() => done());
+  });
+}
+
+export function honoMiddleware(
+  box: Box,
+  options?: HttpOptions
+): HonoMiddleware {
+  return async (context, next) => {
+    const requestBox = open(box, context, context.req, options);
+    try {
+      await requestBox.box.run(next);
+    } finally {
+      await requestBox.close();
+    }
+  };
+}
+
+const boxes = new WeakMap<object, Box>();
+
+function open(box: Box, key: object, request: unknown, options?: HttpOptions) {
+  const requestBox = box.child();
+  // the framework owns the request, so the box must not dispose it
+  const Request = factory(() => request, {
+    lifetime: "scoped",
+    dispose: () => {},
+  });
+  requestBox.bind(HttpRequest, Request);
+  boxes.set(key, requestBox);
+
+  // disposal errors happen after the response, so they are reported instead
+  const close = () =>
+    requestBox.asyncDispose().catch((error) => {
+      if (options?.onDisposeError) options.onDisposeError(error);
+      else console.error(error);
+    });
+  return { box: requestBox, close };
+}
@@ -1,65 +1,1545 @@
-export type Constructor<T> = { init(box: Box): T } | { new (): T };
+import type { DependencyGraph, GraphEdge, GraphNode } from "./graph";
+import type { ProfileEntry, ProfileReport } from "./profile";
+import { nameOf } from "./names";
+
+export * from "./graph";
+export * from "./profile";
+export * from "./config";
+export * from "./decorators";
+
+export type Constructor<T> = ({ init(box: Box): T } | { new (): T }) &
+  ConstructorOptions<T>;
+
+export type AsyncConstructor<T> = {
+  initAsync(box: Box): Promise<T>;
+} & ConstructorOptions<T>;
+
+export type ConstructorOptions<T> = {
+  name?: string;
+  lifetime?: Lifetime;
+  dispose?(value: T): void | Promise<void>;
+  serializable?: Serializable<T>;
+};
+
+export type Serializable<T> = {
+  key: string;
+  serialize?(value: T): unknown;
+  revive?(data: any, box: Box): T;
+};
+
+export type SerializedState = Record<string, unknown>;
+
+export type Lifetime = "singleton" | "scoped" | "transient";
+
+export type Resolvable = AnyConstructor | ClassConstructor<any>;
+
+export type Token<T> = { name: string; init(box: Box): T };
+
+export type MultiToken<T> = Constructor<T[]> & {
+  add(...constructors: Constructor<T>[]): MultiToken<T>;
+};
+
+export type ResolutionHooks = {
+  beforeResolve?(constructor: Resolvable, box: Box): void;
+  afterCreate?(constructor: Resolvable, value: unknown, box: Box): void;
+  onCacheHit?(constructor: Resolvable, value: unknown, box: Box): void;
+  onError?(constructor: Resolvable, error: ResolutionError, box: Box): void;
+};
+
+export type Interceptor = (
+  constructor: Resolvable,
+  value: any,
+  box: Box
+) => any;
+
+export type HotContext = {
+  accept(callback: (module: Record<string, unknown> | undefined) => void): void;
+};
+
+export type PreloadResult = {
+  ready: boolean;
+  results: PreloadStatus[];
+};
+
+export type PreloadStatus =
+  | { constructor: AnyConstructor; name: string; status: "ready" }
+  | {
+      constructor: AnyConstructor;
+      name: string;
+      status: "failed";
+      error: unknown;
+    };
+
+export type ModuleOptions = {
+  name: string;
+  imports?: Module[];
+  providers?: (Constructor<any> | AsyncConstructor<any>)[];
+  bindings?: [Token<any>, unknown][];
+  exports?: (Constructor<any> | AsyncConstructor<any>)[];
+};
+
+export type Module = {
+  readonly name: string;
+  readonly imports: readonly Module[];
+  readonly providers: readonly AnyConstructor[];
+  readonly bindings: readonly [Token<any>, unknown][];
+  readonly exports: readonly AnyConstructor[];
+};
+
+export type Profile = {
+  report(): ProfileReport;
+  stop(): void;
+};
+
+export type OverrideHandle = {
+  restore(): void;
+  [Symbol.dispose](): void;
+};
+
+export type FreezeOptions = {
+  // set to false to also reject creating new cached instances
+  singletons?: boolean;
+};
+
+export type ReadonlyBox = Pick<
+  Box,
+  | "new"
+  | "get"
+  | "newAsync"
+  | "getAsync"
+  | "getAll"
+  | "resolve"
+  | "lazy"
+  | "for"
+>;
+
+export type InvalidateOptions = {
+  dispose?: boolean;
+};
+
+export type BoxSnapshot = {
+  readonly box: Box;
+  readonly cache: ReadonlyMap<AnyConstructor, unknown>;
+  readonly bindings: ReadonlyMap<AnyConstructor, AnyConstructor>;
+  readonly created: readonly [AnyConstructor, unknown][];
+};
 
 export type ConstructorInstanceType<T> = T extends Constructor<infer U>
+  ? U
+  : T extends AsyncConstructor<infer U>
   ? U
   : never;
 
-export function factory<T>(init: (box: Box) => T): Constructor<T> {
-  return { init };
+export type Resolved<R> = { [K in keyof R]: ResolvedArg<R[K]> };
+
+type ResolvedArg<A> = A extends Lazy<infer T> | Transient<infer T>
+  ? T
+  : A extends Optional<infer T>
+  ? T | undefined
+  : A extends Constructor<infer T>
+  ? T
+  : A;
+
+export function factory<T>(
+  init: (box: Box) => T,
+  options?: ConstructorOptions<T>
+): Constructor<T> {
+  return { ...options, init };
+}
+
+export function asyncFactory<T>(
+  init: (box: Box) => Promise<T>,
+  options?: ConstructorOptions<T>
+): AsyncConstructor<T> {
+  return { ...options, initAsync: init };
 }
 
 export function constant<const T>(value: T): Constructor<T> {
   return { init: () => value };
 }
 
+export function token<T>(name: string): Token<T> {
+  const token: Token<T> = {
+    name,
+    init: () => {
+      throw new UnboundTokenError([token]);
+    },
+  };
+  tokens.add(token);
+  return token;
+}
+
+export function multi<T>(name?: string): MultiToken<T> {
+  const constructors: Constructor<T>[] = [];
+  const token: MultiToken<T> = {
+    name,
+    // the list is rebuilt on each get while every item follows its own lifetime
+    lifetime: "transient",
+    init: (box) => constructors.map((constructor) => box.get(constructor)),
+    add(...added) {
+      constructors.push(...added);
+      return token;
+    },
+  };
+  return token;
+}
+
+export function defineModule(options: ModuleOptions): Module {
+  const module: Module = {
+    name: options.name,
+    imports: options.imports ?? [],
+    providers: options.providers ?? [],
+    bindings: options.bindings ?? [],
+    exports: options.exports ?? [],
+  };
+
+  // modules can only export what they provide
+  const provided = new Set<AnyConstructor>(module.providers);
+  for (const [token] of module.bindings) provided.add(token);
+  for (const constructor of module.exports) {
+    if (!provided.has(constructor)) {
+      throw new Error(
+        `Module ${module.name} cannot export ${nameOf(
+          constructor
+        )}, it is not provided by the module`
+      );
+    }
+  }
+  return module;
+}
+
+export function hot(
+  context: HotContext | undefined,
+  providers: Record<string, AnyConstructor>
+): void {
+  // replace providers in subscribed boxes when the module is updated
+  context?.accept((module) => {
+    if (!module) return;
+    for (const [name, constructor] of Object.entries(providers)) {
+      const replacement = module[name];
+      if (!isConstructor(replacement) || replacement === constructor) continue;
+      for (const listener of hotListeners) listener(constructor, replacement);
+    }
+  });
+}
+
+export function use<T>(constructor: Constructor<T>): T {
+  return currentBox(nameOf(constructor)).get(constructor);
+}
+
+export function useBox(): Box {
+  return currentBox("box");
+}
+
+export function lazy<T extends object>(constructor: Constructor<T>): Lazy<T> {
+  return new Lazy(constructor);
+}
+
+export function transient<T>(constructor: Constructor<T>): Transient<T> {
+  return new Transient(constructor);
+}
+
+export function optional<T>(constructor: Constructor<T>): Optional<T> {
+  return new Optional(constructor);
+}
+
+export class ResolutionError extends Error {
+  public readonly source: Resolvable;
+
+  constructor(
+    public readonly path: Resolvable[],
+    cause: unknown,
+    message = `Failed to resolve ${formatPath(path)}: ${messageOf(cause)}`
+  ) {
+    super(message, { cause });
+    this.name = "ResolutionError";
+    this.source = path[path.length - 1];
+  }
+}
+
+export class CircularDependencyError extends ResolutionError {
+  constructor(path: Resolvable[]) {
+    super(path, undefined, `Circular dependency detected: ${formatPath(path)}`);
+    this.name = "CircularDependencyError";
+  }
+}
+
+export class UnboundTokenError extends ResolutionError {
+  constructor(path: Resolvable[]) {
+    super(
+      path,
+      undefined,
+      `No binding for token ${nameOf(path[path.length - 1])}` +
+        (path.length > 1 ? ` while resolving ${formatPath(path)}` : "")
+    );
+    this.name = "UnboundTokenError";
+  }
+}
+
+export class ModuleAccessError extends ResolutionError {
+  constructor(path: Resolvable[], reason: string) {
+    super(path, undefined, `Cannot resolve ${formatPath(path)}: ${reason}`);
+    this.name = "ModuleAccessError";
+  }
+}
+
 export class Box {
-  private cache = new Map<Constructor<any>, any>();
+  private parent?: Box;
+  private base = this;
+  private module?: Module;
+  private modules = new Map<AnyConstructor, Module>();
+  private loaded = new Set<Module>();
+  private hydration = new Map<string, unknown>();
+  private frozen?: FreezeOptions;
+  private views = new Map<Module, Box>();
+  private context?: ResolutionContext;
+  private stack = new ResolutionStack();
+  private bindings = new Map<AnyConstructor, AnyConstructor>();
+  private cache = new Map<AnyConstructor, any>();
+  private pending = new Map<AsyncConstructor<any>, Promise<any>>();
+  private created: [AnyConstructor, any][] = [];
+  private hooks = new Hooks();
 
   public new<T>(constructor: Constructor<T>): T {
-    // create new instance with either static method or class constructor
-    return "init" in constructor ? constructor.init(this) : new constructor();
+    return this.resolving(() => {
+      this.request(constructor, false);
+
+      // create bound constructor in place of the token
+      const binding = this.binding(constructor);
+      if (binding) {
+        return this.stack.enter(
+          constructor,
+          () => this.view(constructor).new(binding as Constructor<T>),
+          false
+        );
+      }
+
+      return this.create(constructor);
+    });
   }
 
   public get<T>(constructor: Constructor<T>): T {
+    return this.resolving(() => {
+      const lifetime = constructor.lifetime ?? "singleton";
+      this.request(constructor, lifetime !== "transient");
+      return this.lookup(constructor, lifetime);
+    });
+  }
+
+  public async newAsync<T>(
+    constructor: Constructor<T> | AsyncConstructor<T>
+  ): Promise<T> {
+    if (!("initAsync" in constructor)) return this.new(constructor);
+    return this.resolving(() => {
+      this.request(constructor, false);
+
+      // create overriding constructor in place of the original
+      const binding = this.binding(constructor);
+      if (binding) {
+        return this.stack.enterAsync(
+          constructor,
+          () => this.view(constructor).newAsync(binding),
+          false
+        );
+      }
+
+      return this.createAsync(constructor);
+    });
+  }
+
+  public async getAsync<T>(
+    constructor: Constructor<T> | AsyncConstructor<T>
+  ): Promise<T> {
+    if (!("initAsync" in constructor)) return this.get(constructor);
+    return this.resolving(() => {
+      const lifetime = constructor.lifetime ?? "singleton";
+      this.request(constructor, lifetime !== "transient");
+      return this.lookupAsync(constructor, lifetime);
+    });
+  }
+
+  public async preload(
+    constructors: (Constructor<any> | AsyncConstructor<any>)[]
+  ): Promise<PreloadResult> {
+    // resolve every root concurrently and collect failures instead of stopping
+    const settled = await Promise.allSettled(
+      constructors.map((constructor) => this.getAsync(constructor))
+    );
+
+    const results = settled.map((result, i): PreloadStatus => {
+      const constructor = constructors[i];
+      const name = nameOf(constructor);
+      if (result.status === "fulfilled") {
+        return { constructor, name, status: "ready" };
+      }
+      return { constructor, name, status: "failed", error: result.reason };
+    });
+    return {
+      ready: results.every((result) => result.status === "ready"),
+      results,
+    };
+  }
+
+  public hook(hooks: ResolutionHooks): () => void {
+    this.writable("hook");
+    return this.hooks.observe(hooks);
+  }
+
+  public intercept(interceptor: Interceptor): () => void {
+    this.mutate("intercept");
+    return this.hooks.intercept(interceptor);
+  }
+
+  private request(constructor: AnyConstructor, cached: boolean) {
+    this.access(constructor);
+    this.stack.request(constructor, cached);
+    this.hooks.emit("beforeResolve", constructor, this);
+  }
+
+  private lookup<T>(constructor: Constructor<T>, lifetime: Lifetime): T {
     // return cached instance
-    if (this.cache.has(constructor)) return this.cache.get(constructor);
+    if (this.cache.has(constructor)) return this.hit(constructor);
 
-    // create and cache new instance
-    const value = this.new(constructor);
+    // resolve bound constructor in place of the token
+    const binding = this.binding(constructor);
+    if (binding) {
+      return this.stack.enter(
+        constructor,
+        () => this.view(constructor).get(binding as Constructor<T>),
+        false
+      );
+    }
 
-    this.cache.set(constructor, value);
+    // resolve transient instances and parent singletons without caching here
+    if (lifetime === "transient") return this.create(constructor);
+    if (lifetime === "singleton" && this.parent) {
+      return this.parent.lookup(constructor, lifetime);
+    }
+
+    // revive hydrated state or create and cache new instance
+    this.creating(constructor);
+    const revived = this.revive(constructor);
+    if (revived) return revived.value;
+    const value = this.create(constructor);
+
+    this.store(constructor, value);
+    return value;
+  }
+
+  private async lookupAsync<T>(
+    constructor: AsyncConstructor<T>,
+    lifetime: Lifetime
+  ): Promise<T> {
+    // return cached instance
+    if (this.cache.has(constructor)) return this.hit(constructor);
+    this.stack.check(constructor);
+
+    // resolve overriding constructor in place of the original
+    const binding = this.binding(constructor);
+    if (binding) {
+      return this.stack.enterAsync(
+        constructor,
+        () => this.view(constructor).getAsync(binding),
+        false
+      );
+    }
+
+    // resolve transient instances and parent singletons without caching here
+    if (lifetime === "transient") return this.createAsync(constructor);
+    if (lifetime === "singleton" && this.parent) {
+      return this.parent.lookupAsync(constructor, lifetime);
+    }
+
+    this.creating(constructor);
+    const revived = this.revive(constructor);
+    if (revived) return revived.value;
+
+    // share in-flight initialization between concurrent callers
+    const pending = this.pending.get(constructor);
+    if (pending) return pending;
+
+    // cache resolved value, rejected initialization is not cached
+    const promise = this.createAsync(constructor).then(
+      (value) => {
+        this.pending.delete(constructor);
+        this.store(constructor, value);
+        return value;
+      },
+      (error) => {
+        this.pending.delete(constructor);
+        throw error;
+      }
+    );
+    this.pending.set(constructor, promise);
+    return promise;
+  }
+
+  public bind<T>(token: Token<T>, target: Constructor<T> | T): void {
+    this.mutate("bind");
+    // classes and init objects are constructors, any other value is a constant
+    const constructor = isConstructor(target)
+      ? (target as Constructor<T>)
+      : constant(target);
+    this.bindings.set(token, constructor);
+  }
+
+  public override<T>(
+    constructor: Constructor<T>,
+    replacement: Constructor<T> | T
+  ): OverrideHandle;
+  public override<T>(
+    constructor: AsyncConstructor<T>,
+    replacement: Constructor<T> | AsyncConstructor<T> | T
+  ): OverrideHandle;
+  public override<T>(
+    constructor: AnyConstructor,
+    replacement: Constructor<T> | AsyncConstructor<T> | T
+  ): OverrideHandle {
+    this.mutate("override");
+    // dependents would keep using the original instance
+    if (this.cache.has(constructor)) {
+      const dependents = this.stack.graph
+        .dependents(constructor)
+        .filter((dependent) => this.cache.has(dependent as AnyConstructor));
+      if (dependents.length) {
+        throw new Error(
+          `Cannot override ${nameOf(constructor)}, already resolved by ` +
+            dependents.map(nameOf).join(", ")
+        );
+      }
+    }
+
+    const binding = this.bindings.get(constructor);
+    const cached = this.cache.has(constructor);
+    const value = this.cache.get(constructor);
+
+    this.cache.delete(constructor);
+    const before = new Map(this.cache);
+    this.bindings.set(
+      constructor,
+      isConstructor(replacement) ? replacement : constant(replacement)
+    );
+
+    let restored = false;
+    const restore = () => {
+      if (restored) return;
+      this.mutate("restore");
+      restored = true;
+      // dependents cached during the override still hold the replacement
+      for (const [evicted, instance] of this.evict(constructor)) {
+        if (before.get(evicted) === instance) this.cache.set(evicted, instance);
+      }
+      if (binding) this.bindings.set(constructor, binding);
+      else this.bindings.delete(constructor);
+      if (cached) this.cache.set(constructor, value);
+    };
+    return { restore, [Symbol.dispose]: restore };
+  }
+
+  public replace<T>(
+    constructor: Constructor<T>,
+    replacement: Constructor<T>,
+    options?: InvalidateOptions
+  ): Resolvable[];
+  public replace<T>(
+    constructor: AsyncConstructor<T>,
+    replacement: Constructor<T> | AsyncConstructor<T>,
+    options?: InvalidateOptions
+  ): Resolvable[];
+  public replace(
+    constructor: AnyConstructor,
+    replacement: AnyConstructor,
+    options: InvalidateOptions = {}
+  ): Resolvable[] {
+    this.mutate("replace");
+    if (constructor === replacement) return [];
+
+    // code holding the old constructor resolves the new one
+    const module = this.owner(constructor);
+    if (module && !this.owner(replacement)) this.own(replacement, module);
+    this.bindings.set(constructor, replacement);
+    return this.invalidate(constructor, options);
+  }
+
+  public acceptHot(options: InvalidateOptions = {}): () => void {
+    this.mutate("acceptHot");
+    // old and new versions of a module export the same kind of provider
+    const listener = (
+      constructor: AnyConstructor,
+      replacement: AnyConstructor
+    ) =>
+      this.replace(
+        constructor as Constructor<unknown>,
+        replacement as Constructor<unknown>,
+        options
+      );
+    hotListeners.add(listener);
+    return () => hotListeners.delete(listener);
+  }
+
+  public serialize(): SerializedState {
+    const state: SerializedState = {};
+    const keys = new Map<string, AnyConstructor>();
+
+    // cached values of child boxes shadow the values of their parents
+    for (let box: Box | undefined = this; box; box = box.parent) {
+      for (const [constructor, value] of box.cache) {
+        const options = constructor.serializable;
+        if (!options || keys.get(options.key) === constructor) continue;
+
+        const other = keys.get(options.key);
+        if (other) {
+          const names = [other, constructor].map(nameOf).join(" and ");
+          throw new Error(
+            `Serialization key ${options.key} is used by ${names}`
+          );
+        }
+        keys.set(options.key, constructor);
+        state[options.key] = options.serialize
+          ? options.serialize(value)
+          : value;
+      }
+    }
+    return state;
+  }
+
+  public hydrate(state: SerializedState): void {
+    this.mutate("hydrate");
+    // values are revived when their constructor is first resolved
+    for (const [key, data] of Object.entries(state)) {
+      this.hydration.set(key, data);
+    }
+  }
+
+  public snapshot(): BoxSnapshot {
+    return {
+      box: this,
+      cache: new Map(this.cache),
+      bindings: new Map(this.bindings),
+      created: [...this.created],
+    };
+  }
+
+  public restore(snapshot: BoxSnapshot): void {
+    this.mutate("restore");
+    if (snapshot.box !== this) {
+      throw new Error("Cannot restore a snapshot taken from another box");
+    }
+    this.cache = new Map(snapshot.cache);
+    this.bindings = new Map(snapshot.bindings);
+    this.created = [...snapshot.created];
+  }
+
+  public resolve<R extends Record<string, unknown>>(record: R): Resolved<R> {
+    return resolveProps(this, record) as Resolved<R>;
+  }
+
+  public getAll<T>(token: MultiToken<T>): T[] {
+    return this.get(token);
+  }
+
+  public lazy<T extends object>(constructor: Constructor<T>): T {
+    // resolve with get on first access, access is checked up front
+    return this.resolving(() => {
+      this.access(constructor);
+      this.stack.request(constructor, true);
+      return lazyProxy(() =>
+        this.resolving(() =>
+          this.lookup(constructor, constructor.lifetime ?? "singleton")
+        )
+      );
+    });
+  }
+
+  public load(...modules: Module[]): void {
+    this.mutate("load");
+    for (const module of modules) {
+      if (this.base.isLoaded(module)) continue;
+      this.base.loaded.add(module);
+      this.load(...module.imports);
+
+      for (const constructor of module.providers) this.own(constructor, module);
+      for (const [token, target] of module.bindings) {
+        // binding targets become private providers of the module
+        this.bind(token, target);
+        const binding = this.base.bindings.get(token)!;
+        this.own(token, module);
+        if (!this.owner(binding)) this.own(binding, module);
+      }
+    }
+  }
+
+  public graph(): DependencyGraph {
+    return this.stack.graph.toJSON();
+  }
+
+  public profile(): Profile {
+    this.writable("profile");
+    // profiling is shared with child boxes like the resolution stack
+    const profiler = new Profiler();
+    this.stack.profiler = profiler;
+    return {
+      report: () => profiler.report(),
+      stop: () => {
+        if (this.stack.profiler === profiler) this.stack.profiler = undefined;
+      },
+    };
+  }
+
+  public freeze(options: FreezeOptions = {}): void {
+    this.writable("freeze");
+    this.base.frozen = options;
+  }
+
+  public readonly(): ReadonlyBox {
+    // init of everything resolved through the view receives a read-only box
+    const context = { ...this.context, readonly: true };
+    const box: Box = Object.create(this, { context: { value: context } });
+    return {
+      new: (constructor) => box.new(constructor),
+      get: (constructor) => box.get(constructor),
+      newAsync: (constructor) => box.newAsync(constructor),
+      getAsync: (constructor) => box.getAsync(constructor),
+      getAll: (token) => box.getAll(token),
+      resolve: (record) => box.resolve(record),
+      lazy: (constructor) => box.lazy(constructor),
+      for: (constructor) => box.for(constructor),
+    };
+  }
+
+  public run<R>(fn: () => R): R {
+    // the box is available to use() in every async continuation of fn
+    return contextStorage().run(this, fn);
+  }
+
+  public child(): Box {
+    // share singletons with this box and cache scoped instances in the child
+    const box = new Box();
+    box.parent = this;
+    box.stack = this.stack;
+    box.hooks = new Hooks(this.hooks);
+    if (this.context?.readonly) box.context = { readonly: true };
+    return box;
+  }
+
+  public invalidate(
+    constructor: Constructor<any> | AsyncConstructor<any>,
+    options: InvalidateOptions = {}
+  ): Resolvable[] {
+    this.mutate("invalidate");
+    const evicted = this.evict(constructor);
+    if (options.dispose) {
+      this.disposeAll(this.release(evicted), "Failed to dispose invalidated");
+    }
+    return [...evicted.keys()];
+  }
+
+  public async invalidateAsync(
+    constructor: Constructor<any> | AsyncConstructor<any>,
+    options: InvalidateOptions = {}
+  ): Promise<Resolvable[]> {
+    this.mutate("invalidate");
+    const evicted = this.evict(constructor);
+    if (options.dispose) {
+      await this.asyncDisposeAll(
+        this.release(evicted),
+        "Failed to dispose invalidated"
+      );
+    }
+    return [...evicted.keys()];
+  }
+
+  public clear(): void {
+    this.mutate("clear");
+    // instances are still disposed with the box
+    this.cache.clear();
+  }
+
+  public dispose(): void {
+    this.writable("dispose");
+    this.disposeAll(this.release(), "Failed to dispose box");
+  }
+
+  public async asyncDispose(): Promise<void> {
+    this.writable("dispose");
+    await this.asyncDisposeAll(this.release(), "Failed to dispose box");
+  }
+
+  private disposeAll(created: [AnyConstructor, any][], message: string) {
+    const errors: unknown[] = [];
+
+    // dispose instances in reverse creation order so dependents go first
+    for (const [constructor, value] of created) {
+      try {
+        if (constructor.dispose) {
+          const result = constructor.dispose(value);
+          if (result instanceof Promise) {
+            result.catch(() => {});
+            throw new Error(`${nameOf(constructor)} requires asyncDispose()`);
+          }
+        } else if (isDisposable(value)) {
+          value[Symbol.dispose]();
+        } else if (isAsyncDisposable(value)) {
+          throw new Error(`${nameOf(constructor)} requires asyncDispose()`);
+        }
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    if (errors.length) throw new AggregateError(errors, message);
+  }
+
+  private async asyncDisposeAll(
+    created: [AnyConstructor, any][],
+    message: string
+  ) {
+    const errors: unknown[] = [];
+
+    // dispose instances in reverse creation order so dependents go first
+    for (const [constructor, value] of created) {
+      try {
+        if (constructor.dispose) await constructor.dispose(value);
+        else if (isAsyncDisposable(value)) await value[Symbol.asyncDispose]();
+        else if (isDisposable(value)) value[Symbol.dispose]();
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    if (errors.length) throw new AggregateError(errors, message);
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose();
+  }
+
+  public [Symbol.asyncDispose](): Promise<void> {
+    return this.asyncDispose();
+  }
+
+  private binding(constructor: AnyConstructor): AnyConstructor | undefined {
+    // bindings of child boxes shadow bindings of their parents
+    for (let box: Box | undefined = this; box; box = box.parent) {
+      const binding = box.bindings.get(constructor);
+      if (binding) return binding;
+    }
+  }
+
+  private create<T>(constructor: Constructor<T>): T {
+    if (tokens.has(constructor)) {
+      throw new UnboundTokenError([...this.stack.snapshot(), constructor]);
+    }
+
+    // create new instance with either static method or class constructor
+    const view = this.view(constructor);
+    return this.hooks.run(constructor, view, () =>
+      this.stack.enter(constructor, () => {
+        const value =
+          "init" in constructor
+            ? constructor.init(this.frame(view, false))
+            : new constructor();
+        return this.hooks.apply(constructor, value, view);
+      })
+    );
+  }
+
+  private createAsync<T>(constructor: AsyncConstructor<T>): Promise<T> {
+    const view = this.view(constructor);
+    return this.hooks.runAsync(constructor, view, () =>
+      this.stack.enterAsync(constructor, async () => {
+        // the stack unwinds at the first await, so init gets the path with the box
+        const box = this.frame(view, true);
+        try {
+          const value = await constructor.initAsync(box);
+          return this.hooks.apply(constructor, value, view);
+        } finally {
+          // a stored box resolves like the box itself once init has settled
+          box.context = box.context?.readonly ? { readonly: true } : undefined;
+        }
+      })
+    );
+  }
+
+  private frame(view: Box, async: boolean): Box {
+    // read-only resolutions pass read-only boxes to init as well
+    const { path, readonly } = this.stack.context();
+    if (!async && !readonly) return view;
+
+    // sync init runs on the live stack, so only async init carries the path
+    const context = async ? { path, readonly } : { readonly };
+    return Object.create(view, { context: { value: context, writable: true } });
+  }
+
+  private resolving<R>(fn: () => R): R {
+    // boxes given to init resume their resolution path and restrictions
+    return this.context ? this.stack.within(this.context, fn) : fn();
+  }
+
+  private owner(constructor: AnyConstructor): Module | undefined {
+    for (let box: Box | undefined = this; box; box = box.parent) {
+      const module = box.modules.get(constructor);
+      if (module) return module;
+    }
+  }
+
+  private isLoaded(module: Module): boolean {
+    for (let box: Box | undefined = this; box; box = box.parent) {
+      if (box.loaded.has(module)) return true;
+    }
+    return false;
+  }
+
+  private own(constructor: AnyConstructor, module: Module) {
+    const owner = this.owner(constructor);
+    if (owner && owner !== module) {
+      throw new Error(
+        `${nameOf(constructor)} is provided by both module ${
+          owner.name
+        } and module ${module.name}`
+      );
+    }
+    this.base.modules.set(constructor, module);
+  }
+
+  private access(constructor: AnyConstructor) {
+    const owner = this.owner(constructor);
+    if (!owner || owner === this.module) return;
+
+    // providers outside a module can only use what it exports
+    let reason: string | undefined;
+    if (!owner.exports.includes(constructor)) {
+      reason = `it is not exported by module ${owner.name}`;
+    } else if (this.module && !this.module.imports.includes(owner)) {
+      reason = `module ${this.module.name} does not import module ${owner.name}`;
+    }
+    if (reason) {
+      const path = [...this.stack.snapshot(), constructor];
+      throw new ModuleAccessError(path, reason);
+    }
+  }
+
+  private view(constructor: AnyConstructor): Box {
+    // providers of a module resolve their dependencies as members of it
+    const module = this.owner(constructor);
+    if (!module) return this.base;
+
+    let view = this.base.views.get(module);
+    if (!view) {
+      view = Object.create(this.base, { module: { value: module } }) as Box;
+      this.base.views.set(module, view);
+    }
+    return view;
+  }
+
+  private hit(constructor: AnyConstructor) {
+    const value = this.cache.get(constructor);
+    this.stack.profiler?.hit(constructor);
+    this.hooks.emit("onCacheHit", constructor, value, this);
+    return value;
+  }
+
+  private memo<T>(constructor: AnyConstructor, create: () => T): T {
+    if (this.cache.has(constructor)) return this.hit(constructor);
+    const value = create();
+    this.store(constructor, value);
     return value;
   }
 
+  private mutate(action: string) {
+    this.writable(action);
+    if (this.frozen) throw new Error(`Cannot ${action}, the box is frozen`);
+  }
+
+  private writable(action: string) {
+    if (this.context?.readonly) {
+      throw new Error(`Cannot ${action}, the box is read-only`);
+    }
+  }
+
+  private creating(constructor: AnyConstructor) {
+    if (this.frozen?.singletons === false) {
+      const path = [...this.stack.snapshot(), constructor];
+      throw new ResolutionError(
+        path,
+        undefined,
+        `Cannot create ${formatPath(path)}: the box is frozen`
+      );
+    }
+  }
+
+  private revive<T>(constructor: Constructor<T> | AsyncConstructor<T>) {
+    const options = constructor.serializable;
+    if (!options || !this.hydration.has(options.key)) return;
+
+    // hydrated state is only used once, later instances are created
+    const data = this.hydration.get(options.key);
+    this.hydration.delete(options.key);
+    const view = this.view(constructor);
+    const value: T = this.stack.enter(constructor, () =>
+      options.revive
+        ? options.revive(data, this.frame(view, false))
+        : (data as T)
+    );
+    this.store(constructor, value);
+    return { value };
+  }
+
+  private store(constructor: AnyConstructor, value: any) {
+    this.cache.set(constructor, value);
+    this.created.push([constructor, value]);
+  }
+
+  private release(evicted?: Map<AnyConstructor, any>) {
+    // return created instances newest first, all of them empty the cache
+    if (!evicted) {
+      const created = this.created.reverse();
+      this.created = [];
+      this.cache.clear();
+      return created;
+    }
+
+    const released = (entry: [AnyConstructor, any]) =>
+      evicted.has(entry[0]) && evicted.get(entry[0]) === entry[1];
+    const created = this.created.filter(released).reverse();
+    this.created = this.created.filter((entry) => !released(entry));
+    return created;
+  }
+
+  private evict(constructor: AnyConstructor) {
+    const evicted = new Map<AnyConstructor, any>();
+    const visited = new Set<Resolvable>();
+    const queue: Resolvable[] = [constructor];
+
+    // walk every dependent, and the binding of tokens, evicting cached ones
+    while (queue.length) {
+      const next = queue.shift() as AnyConstructor;
+      if (visited.has(next)) continue;
+      visited.add(next);
+
+      if (this.cache.has(next)) {
+        evicted.set(next, this.cache.get(next));
+        this.cache.delete(next);
+      }
+      queue.push(...this.stack.graph.dependents(next));
+      const binding = this.bindings.get(next);
+      if (binding) queue.push(binding);
+    }
+    return evicted;
+  }
+
   public for<T extends ClassConstructor<any>>(constructor: T) {
-    return new Construct(this, constructor);
+    return new Construct(
+      this,
+      constructor,
+      this.stack,
+      this.hooks,
+      (create) => this.memo(constructor, create),
+      (fn) => this.resolving(fn)
+    );
   }
 
+  /** @deprecated Use `box.override()` instead. */
   public static mock<T, V extends T = T>(
     box: Box,
-    constructor: Constructor<T>,
+    constructor: Constructor<T> | AsyncConstructor<T>,
     value: V
   ) {
+    box.mutate("mock");
     box.cache.set(constructor, value);
   }
 }
 
 class Construct<T extends ClassConstructor<any>> {
-  constructor(private box: Box, private construct: T) {}
+  constructor(
+    private box: Box,
+    private construct: T,
+    private stack: ResolutionStack,
+    private hooks: Hooks,
+    private memo: (create: () => InstanceType<T>) => InstanceType<T>,
+    private resolving: <R>(fn: () => R) => R
+  ) {}
 
   public new(...args: ClassConstructorArgs<T>): InstanceType<T> {
-    const instances = args.map((arg) => this.box.new(arg));
-    return new this.construct(...instances);
+    return this.resolve(() =>
+      args.map((arg) => resolveArg(this.box, arg, false))
+    );
   }
 
   public get(...args: ClassConstructorArgs<T>): InstanceType<T> {
-    const instances = args.map((arg) => this.box.get(arg));
-    return new this.construct(...instances);
+    return this.resolve(() =>
+      args.map((arg) => resolveArg(this.box, arg, true))
+    );
+  }
+
+  public cached(...args: ClassConstructorArgs<T>): InstanceType<T> {
+    // like get, but the instance is also cached in the box
+    return this.resolve(
+      () => args.map((arg) => resolveArg(this.box, arg, true)),
+      true
+    );
+  }
+
+  public props(props: ClassConstructorProps<T>): InstanceType<T> {
+    // the class takes a single options object resolved like get
+    return this.resolve(() => [resolveProps(this.box, props)]);
+  }
+
+  private resolve(args: () => unknown[], cached = false): InstanceType<T> {
+    return this.resolving(() => {
+      // static init of the same class is already on the stack
+      if (this.stack.top === this.construct) {
+        return new this.construct(...args());
+      }
+      this.stack.request(this.construct, cached);
+      this.hooks.emit("beforeResolve", this.construct, this.box);
+      const create = () =>
+        this.hooks.run(this.construct, this.box, () =>
+          this.stack.enter(this.construct, () => {
+            const value = new this.construct(...args());
+            return this.hooks.apply(this.construct, value, this.box);
+          })
+        );
+      return cached ? this.memo(create) : create();
+    });
+  }
+}
+
+class Lazy<T> {
+  private declare readonly kind: "lazy";
+  constructor(public readonly target: Constructor<T>) {}
+}
+
+class Transient<T> {
+  private declare readonly kind: "transient";
+  constructor(public readonly target: Constructor<T>) {}
+}
+
+class Optional<T> {
+  private declare readonly kind: "optional";
+  constructor(public readonly target: Constructor<T>) {}
+}
+
+function resolveArg(box: Box, arg: unknown, cached: boolean): unknown {
+  if (arg instanceof Lazy) {
+    const target = arg.target;
+    return cached ? box.lazy(target) : lazyProxy(() => box.new(target));
+  }
+  if (arg instanceof Transient) return box.new(arg.target);
+  if (arg instanceof Optional) {
+    try {
+      return resolveArg(box, arg.target, cached);
+    } catch (error) {
+      // only a missing binding for the token itself is optional
+      if (error instanceof UnboundTokenError && error.source === arg.target) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  // anything that is not a constructor, including arrow functions, is passed as is
+  if (!isConstructor(arg)) return arg;
+  const constructor = arg as Constructor<unknown>;
+  return cached ? box.get(constructor) : box.new(constructor);
+}
+
+function resolveProps(box: Box, props: object): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  for (const [key, arg] of Object.entries(props)) {
+    resolved[key] = resolveArg(box, arg, true);
+  }
+  return resolved;
+}
+
+function lazyProxy<T extends object>(resolve: () => T): T {
+  // the proxy target is a thunk so the proxy is also callable
+  let instance: T | undefined;
+  const thunk = () => (instance ??= resolve());
+  return new Proxy(thunk, lazyHandler) as unknown as T;
+}
+
+const lazyHandler: ProxyHandler<() => any> = {
+  get(thunk, key) {
+    const instance = thunk();
+    const value = Reflect.get(instance, key, instance);
+    // bind methods so private fields work when called through the proxy
+    return typeof value === "function" ? value.bind(instance) : value;
+  },
+  set: (thunk, key, value) => Reflect.set(thunk(), key, value),
+  has: (thunk, key) => Reflect.has(thunk(), key),
+  deleteProperty: (thunk, key) => Reflect.deleteProperty(thunk(), key),
+  ownKeys: (thunk) => Reflect.ownKeys(thunk()),
+  getOwnPropertyDescriptor(thunk, key) {
+    const descriptor = Reflect.getOwnPropertyDescriptor(thunk(), key);
+    // the thunk does not own the property so it must be reported configurable
+    return descriptor && { ...descriptor, configurable: true };
+  },
+  defineProperty: (thunk, key, descriptor) =>
+    Reflect.defineProperty(thunk(), key, descriptor),
+  getPrototypeOf: (thunk) => Reflect.getPrototypeOf(thunk()),
+  apply: (thunk, self, args) => Reflect.apply(thunk(), self, args),
+};
+
+class Hooks {
+  private observers: ResolutionHooks[] = [];
+  private interceptors: Interceptor[] = [];
+
+  constructor(private parent?: Hooks) {}
+
+  public observe(hooks: ResolutionHooks) {
+    this.observers.push(hooks);
+    return () => remove(this.observers, hooks);
+  }
+
+  public intercept(interceptor: Interceptor) {
+    this.interceptors.push(interceptor);
+    return () => remove(this.interceptors, interceptor);
+  }
+
+  public emit<K extends keyof ResolutionHooks>(
+    name: K,
+    ...args: Parameters<NonNullable<ResolutionHooks[K]>>
+  ) {
+    // hooks inherited from parent boxes run first
+    this.parent?.emit(name, ...args);
+    for (const hooks of this.observers) {
+      (hooks[name] as Function | undefined)?.(...args);
+    }
+  }
+
+  public apply(constructor: Resolvable, value: any, box: Box): any {
+    if (this.parent) value = this.parent.apply(constructor, value, box);
+    for (const interceptor of this.interceptors) {
+      value = interceptor(constructor, value, box);
+    }
+    return value;
+  }
+
+  public run<T>(constructor: Resolvable, box: Box, create: () => T): T {
+    try {
+      const value = create();
+      this.emit("afterCreate", constructor, value, box);
+      return value;
+    } catch (error) {
+      this.emit("onError", constructor, error as ResolutionError, box);
+      throw error;
+    }
+  }
+
+  public async runAsync<T>(
+    constructor: Resolvable,
+    box: Box,
+    create: () => Promise<T>
+  ): Promise<T> {
+    try {
+      const value = await create();
+      this.emit("afterCreate", constructor, value, box);
+      return value;
+    } catch (error) {
+      this.emit("onError", constructor, error as ResolutionError, box);
+      throw error;
+    }
+  }
+}
+
+class ResolutionStack {
+  private path: Resolvable[] = [];
+  private restricted = false;
+  public readonly graph = new GraphRecorder();
+  public profiler?: Profiler;
+
+  public get top(): Resolvable | undefined {
+    return this.path[this.path.length - 1];
+  }
+
+  public snapshot(): Resolvable[] {
+    return [...this.path];
+  }
+
+  public context(): ResolutionContext {
+    return { path: this.snapshot(), readonly: this.restricted };
+  }
+
+  public within<R>(context: ResolutionContext, fn: () => R): R {
+    const { path, restricted } = this;
+    if (context.path) this.path = [...context.path];
+    // resolutions inside a read-only resolution stay read-only
+    this.restricted ||= !!context.readonly;
+    try {
+      return fn();
+    } finally {
+      this.path = path;
+      this.restricted = restricted;
+    }
+  }
+
+  public request(constructor: Resolvable, cached: boolean) {
+    this.graph.record(this.top, constructor, cached);
+  }
+
+  public check(constructor: Resolvable) {
+    const index = this.path.indexOf(constructor);
+    if (index !== -1) {
+      throw new CircularDependencyError([
+        ...this.path.slice(index),
+        constructor,
+      ]);
+    }
+  }
+
+  public enter<R>(constructor: Resolvable, fn: () => R, profile = true): R {
+    this.check(constructor);
+    this.path.push(constructor);
+    // bindings only redirect, the bound constructor is profiled instead
+    const frame = profile ? this.profiler?.start(constructor) : undefined;
+    let settled = true;
+    try {
+      const result = fn();
+      // async initialization is timed until the promise settles
+      if (frame && result instanceof Promise) {
+        settled = false;
+        const end = () => frame.end();
+        result.then(end, end);
+      }
+      return result;
+    } catch (error) {
+      throw resolutionError(error, [...this.path]);
+    } finally {
+      this.path.pop();
+      frame?.leave();
+      if (settled) frame?.end();
+    }
+  }
+
+  public enterAsync<R>(
+    constructor: Resolvable,
+    fn: () => Promise<R>,
+    profile = true
+  ) {
+    // path is captured before the stack unwinds at the first await
+    const path = [...this.path, constructor];
+    return this.enter(constructor, fn, profile).catch((error) => {
+      throw resolutionError(error, path);
+    });
   }
 }
 
+type ResolutionContext = { path?: Resolvable[]; readonly?: boolean };
+
+class Profiler {
+  private entries = new Map<Resolvable, ProfileEntry>();
+  private stacks = new Map<string, { path: string[]; time: number }>();
+  private active: ProfileFrame[] = [];
+
+  public start(constructor: Resolvable) {
+    const parent = this.active[this.active.length - 1];
+    const path = [...(parent?.path ?? []), nameOf(constructor)];
+    const frame: ProfileFrame = {
+      path,
+      start: performance.now(),
+      children: 0,
+      leave: () => remove(this.active, frame),
+      end: () => {
+        const inclusive = performance.now() - frame.start;
+        const exclusive = Math.max(inclusive - frame.children, 0);
+        if (parent) parent.children += inclusive;
+
+        const entry = this.entry(constructor);
+        entry.creations++;
+        entry.inclusive += inclusive;
+        entry.exclusive += exclusive;
+
+        const key = JSON.stringify(path);
+        const stack = this.stacks.get(key) ?? { path, time: 0 };
+        stack.time += exclusive;
+        this.stacks.set(key, stack);
+      },
+    };
+    this.active.push(frame);
+    return frame;
+  }
+
+  public hit(constructor: Resolvable) {
+    this.entry(constructor).cacheHits++;
+  }
+
+  public report(): ProfileReport {
+    return {
+      entries: [...this.entries.values()]
+        .map((entry) => ({ ...entry }))
+        .sort((a, b) => b.exclusive - a.exclusive),
+      stacks: [...this.stacks.values()].map((stack) => ({
+        path: [...stack.path],
+        time: stack.time,
+      })),
+    };
+  }
+
+  private entry(constructor: Resolvable): ProfileEntry {
+    let entry = this.entries.get(constructor);
+    if (!entry) {
+      entry = {
+        name: nameOf(constructor),
+        creations: 0,
+        cacheHits: 0,
+        inclusive: 0,
+        exclusive: 0,
+      };
+      this.entries.set(constructor, entry);
+    }
+    return entry;
+  }
+}
+
+type ProfileFrame = {
+  path: string[];
+  start: number;
+  children: number;
+  leave(): void;
+  end(): void;
+};
+
+class GraphRecorder {
+  private nodes = new Map<Resolvable, GraphNode>();
+  private edges = new Map<string, GraphEdge>();
+  private parents = new Map<Resolvable, Set<Resolvable>>();
+
+  public record(from: Resolvable | undefined, to: Resolvable, cached: boolean) {
+    const target = this.node(to);
+    if (!from) return;
+
+    const parents = this.parents.get(to) ?? new Set();
+    this.parents.set(to, parents.add(from));
+
+    const source = this.node(from);
+    const key = JSON.stringify([source.id, target.id, cached]);
+    if (!this.edges.has(key)) {
+      this.edges.set(key, { from: source.id, to: target.id, cached });
+    }
+  }
+
+  public dependents(constructor: Resolvable): Resolvable[] {
+    return [...(this.parents.get(constructor) ?? [])];
+  }
+
+  public toJSON(): DependencyGraph {
+    return {
+      nodes: [...this.nodes.values()].map((node) => ({ ...node })),
+      edges: [...this.edges.values()].map((edge) => ({ ...edge })),
+    };
+  }
+
+  private node(constructor: Resolvable): GraphNode {
+    let node = this.nodes.get(constructor);
+    if (node) return node;
+
+    // disambiguate constructors sharing the same name
+    const name = nameOf(constructor);
+    let id = name;
+    for (let i = 2; this.ids().has(id); i++) id = `${name}#${i}`;
+
+    const lifetime = "lifetime" in constructor && constructor.lifetime;
+    node = { id, name, lifetime: lifetime || "singleton" };
+    this.nodes.set(constructor, node);
+    return node;
+  }
+
+  private ids() {
+    return new Set([...this.nodes.values()].map((node) => node.id));
+  }
+}
+
+function resolutionError(error: unknown, path: Resolvable[]) {
+  if (!(error instanceof ResolutionError)) {
+    return new ResolutionError(path, error);
+  }
+
+  // specific errors keep the path where they were detected
+  if (error.constructor !== ResolutionError) return error;
+
+  // prepend ancestors that were no longer on the stack after an await
+  if (path.every((constructor, i) => error.path[i] === constructor)) {
+    return error;
+  }
+  return new ResolutionError([...path, ...error.path], error.cause);
+}
+
+const tokens = new WeakSet<object>();
+
+type ContextStorage = {
+  run<R>(box: Box, fn: () => R): R;
+  getStore(): Box | undefined;
+};
+
+let storage: ContextStorage | undefined;
+
+function currentBox(name: string): Box {
+  const box = storage?.getStore();
+  if (!box) throw new Error(`Cannot use ${name} outside of box.run()`);
+  return box;
+}
+
+function contextStorage(): ContextStorage {
+  if (storage) return storage;
+
+  // loaded on demand so the core does not depend on node
+  const hooks = globalThis.process?.getBuiltinModule?.("node:async_hooks");
+  if (!hooks) {
+    throw new Error(
+      "box.run() requires AsyncLocalStorage from node:async_hooks, " +
+        "loaded with process.getBuiltinModule (Node.js ^20.16.0 || >=22.3.0)"
+    );
+  }
+  return (storage = new hooks.AsyncLocalStorage<Box>());
+}
+
+const hotListeners = new Set<
+  (constructor: AnyConstructor, replacement: AnyConstructor) => void
+>();
+
+type AnyConstructor = Constructor<any> | AsyncConstructor<any>;
+
+function remove<T>(list: T[], item: T) {
+  const index = list.indexOf(item);
+  if (index !== -1) list.splice(index, 1);
+}
+
+function isConstructor(value: unknown): value is AnyConstructor {
+  // arrow functions and methods have no prototype, so they are plain values
+  if (typeof value === "function") return value.prototype !== undefined;
+  if (typeof value !== "object" || value === null) return false;
+  return "init" in value || "initAsync" in value;
+}
+
+function formatPath(path: Resolvable[]): string {
+  return path.map(nameOf).join(" -> ");
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isDisposable(value: any): value is Disposable {
+  return typeof value?.[Symbol.dispose] === "function";
+}
+
+function isAsyncDisposable(value: any): value is AsyncDisposable {
+  return typeof value?.[Symbol.asyncDispose] === "function";
+}
+
 type ClassConstructor<T> = { new (...args: any): T };
 type ClassConstructorArgs<
   T extends ClassConstructor<any>,
   Args = ConstructorParameters<T>
-> = { [K in keyof Args]: Constructor<Args[K]> };
+> = { [K in keyof Args]: ClassConstructorArg<Args[K]> };
+type ClassConstructorProps<
+  T extends ClassConstructor<any>,
+  Props = ConstructorParameters<T>[0]
+> = { [K in keyof Props]: ClassConstructorArg<Props[K]> };
+type ClassConstructorArg<T> =
+  | Constructor<T>
+  | Lazy<T>
+  | Transient<T>
+  | (undefined extends T ? Optional<Exclude<T, undefined>> : never)
+  | T;
@@ -0,0 +1,8 @@
+import type { Resolvable } from "./index";
+
+// shared with the entry points so error messages name constructors alike
+export function nameOf(constructor: Resolvable): string {
+  return "name" in constructor && constructor.name
+    ? String(constructor.name)
+    : "<anonymous>";
+}
@@ -0,0 +1,56 @@
+export type ProfileReport = {
+  entries: ProfileEntry[];
+  stacks: ProfileStack[];
+};
+
+export type ProfileEntry = {
+  name: string;
+  creations: number;
+  cacheHits: number;
+  inclusive: number;
+  exclusive: number;
+};
+
+export type ProfileStack = { path: string[]; time: number };
+
+export function profileToTable(report: ProfileReport): string {
+  const rows = [
+    ["Constructor", "Creations", "Cache hits", "Inclusive ms", "Exclusive ms"],
+    ...report.entries.map((entry) => [
+      entry.name,
+      String(entry.creations),
+      String(entry.cacheHits),
+      entry.inclusive.toFixed(3),
+      entry.exclusive.toFixed(3),
+    ]),
+  ];
+
+  // left align names and right align numbers
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+export function profileToJSON(report: ProfileReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+export function profileToFolded(report: ProfileReport): string {
+  // folded stacks count whole samples so times are written in microseconds
+  return report.stacks
+    .map((stack) => {
+      const frames = stack.path.map((name) => name.replace(/[; ]/g, "_"));
+      return `${frames.join(";")} ${Math.round(stack.time * 1000)}`;
+    })
+    .join("\n");
+}
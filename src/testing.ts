@@ -0,0 +1,142 @@
+import {
+  AsyncConstructor,
+  Box,
+  constant,
+  Constructor,
+  Resolvable,
+} from "./index";
+import { nameOf } from "./names";
+
+export type TestBoxOptions = {
+  stubs?: (Constructor<any> | AsyncConstructor<any>)[];
+};
+
+export type Isolated = {
+  readonly box: TestBox;
+  reset(): TestBox;
+  dispose(): Promise<void>;
+};
+
+export class TestBox extends Box {
+  private resolved = new Set<Resolvable>();
+  private instantiated = new Set<Resolvable>();
+
+  constructor() {
+    super();
+    this.hook({
+      beforeResolve: (constructor) => void this.resolved.add(constructor),
+      afterCreate: (constructor) => void this.instantiated.add(constructor),
+    });
+  }
+
+  public stub<T>(
+    constructor: Constructor<T> | AsyncConstructor<T>,
+    implementation: Partial<T> = {}
+  ): T {
+    const value = stub(constructor, implementation);
+    // narrowed so the override overload matches the kind of constructor
+    if ("initAsync" in constructor) this.override(constructor, constant(value));
+    else this.override(constructor, constant(value));
+    return value;
+  }
+
+  public wasResolved(constructor: Resolvable): boolean {
+    return this.resolved.has(constructor);
+  }
+
+  public wasCreated(constructor: Resolvable): boolean {
+    return this.instantiated.has(constructor);
+  }
+
+  public assertResolved(constructor: Resolvable): void {
+    if (!this.wasResolved(constructor)) {
+      throw new Error(`Expected ${nameOf(constructor)} to be resolved`);
+    }
+  }
+
+  public assertNotCreated(constructor: Resolvable): void {
+    if (this.wasCreated(constructor)) {
+      throw new Error(`Expected ${nameOf(constructor)} to never be created`);
+    }
+  }
+}
+
+export function createTestBox(options: TestBoxOptions = {}): TestBox {
+  const box = new TestBox();
+  for (const constructor of options.stubs ?? []) box.stub(constructor);
+  return box;
+}
+
+export function isolate(options: TestBoxOptions = {}): Isolated {
+  // call reset in beforeEach and dispose in afterEach
+  let current: TestBox | undefined;
+  return {
+    get box() {
+      if (!current) throw new Error("Test box is not set up, call reset()");
+      return current;
+    },
+    reset() {
+      return (current = createTestBox(options));
+    },
+    async dispose() {
+      const box = current;
+      current = undefined;
+      await box?.asyncDispose();
+    },
+  };
+}
+
+export function stub<T>(
+  constructor: Constructor<T> | AsyncConstructor<T>,
+  implementation: Partial<T> = {}
+): T {
+  // classes are stubbed from their prototype so instanceof still works
+  const prototype =
+    typeof constructor === "function"
+      ? constructor.prototype
+      : Object.prototype;
+  const value = Object.create(prototype);
+
+  for (const key of methodsOf(prototype)) {
+    value[key] = record(() => undefined);
+  }
+  for (const [key, member] of Object.entries(implementation)) {
+    value[key] = typeof member === "function" ? record(member) : member;
+  }
+  return value;
+}
+
+export function calls(method: Function): unknown[][] {
+  const recorded = recordings.get(method);
+  if (!recorded) throw new Error("Expected a stubbed method");
+  return recorded;
+}
+
+const recordings = new WeakMap<Function, unknown[][]>();
+
+function record(method: Function): Function {
+  const recorded: unknown[][] = [];
+  const recorder = function (this: unknown, ...args: unknown[]) {
+    recorded.push(args);
+    return method.apply(this, args);
+  };
+  recordings.set(recorder, recorded);
+  return recorder;
+}
+
+function methodsOf(prototype: object): Set<string | symbol> {
+  const methods = new Set<string | symbol>();
+  for (
+    let current = prototype;
+    current && current !== Object.prototype;
+    current = Object.getPrototypeOf(current)
+  ) {
+    for (const key of Reflect.ownKeys(current)) {
+      const descriptor = Object.getOwnPropertyDescriptor(current, key);
+      if (key !== "constructor" && typeof descriptor?.value === "function") {
+        methods.add(key);
+      }
+    }
+  }
+  return methods;
+}
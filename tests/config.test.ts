@@ -0,0 +1,163 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  Box,
+  config,
+  ConfigError,
+  ConfigSource,
+  envSource,
+  jsonFile,
+  ResolutionError,
+} from "../src";
+
+function port(value: unknown) {
+  const port = Number(value);
+  if (!Number.isInteger(port)) throw new Error("expected an integer");
+  return port;
+}
+
+const AppConfig = config(
+  {
+    port: { key: "PORT", parse: port },
+    host: { key: "HOST", default: "localhost" },
+    databaseUrl: { key: "DATABASE_URL" },
+  },
+  { name: "AppConfig" }
+);
+
+describe("config", () => {
+  it("should read values from the bound source", () => {
+    const box = new Box();
+    box.bind(ConfigSource, { PORT: "8080", DATABASE_URL: "postgres://db" });
+
+    const appConfig: { port: number; host: string; databaseUrl: string } =
+      box.get(AppConfig);
+
+    expect(appConfig).toEqual({
+      port: 8080,
+      host: "localhost",
+      databaseUrl: "postgres://db",
+    });
+  });
+
+  it("should read from process.env by default", () => {
+    process.env.GETBOX_TEST_VALUE = "from env";
+    const EnvConfig = config({ value: { key: "GETBOX_TEST_VALUE" } });
+
+    try {
+      expect(new Box().get(EnvConfig).value).toBe("from env");
+    } finally {
+      delete process.env.GETBOX_TEST_VALUE;
+    }
+  });
+
+  it("should report every missing and invalid key in one error", () => {
+    const box = new Box();
+    box.bind(ConfigSource, { PORT: "eighty" });
+
+    let error: unknown;
+    try {
+      box.get(AppConfig);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ResolutionError);
+    const cause = (error as ResolutionError).cause;
+    expect(cause).toBeInstanceOf(ConfigError);
+    expect((cause as ConfigError).issues).toEqual([
+      { name: "port", key: "PORT", message: "invalid (expected an integer)" },
+      { name: "databaseUrl", key: "DATABASE_URL", message: "missing" },
+    ]);
+    expect((error as Error).message).toBe(
+      "Failed to resolve AppConfig: Invalid config: PORT is invalid (expected an integer), DATABASE_URL is missing"
+    );
+  });
+
+  it("should reject non-string values without a parser", () => {
+    const box = new Box();
+    box.bind(ConfigSource, { PORT: 80, DATABASE_URL: 1 });
+
+    expect(() => box.get(AppConfig)).toThrow(
+      "DATABASE_URL is invalid (expected a string, got number)"
+    );
+  });
+
+  it("should type values without a parser as strings", () => {
+    const box = new Box();
+    box.bind(ConfigSource, { HOST: "example.com", PORT: "8080" });
+
+    const ServerConfig = config({
+      host: { key: "HOST", default: "localhost" },
+      port: { key: "PORT", parse: port, default: 3000 },
+    });
+    const { host, port: value }: { host: string; port: number } =
+      box.get(ServerConfig);
+
+    expect(host).toBe("example.com");
+    expect(value).toBe(8080);
+
+    // @ts-expect-error defaults without a parser must be strings
+    config({ port: { key: "PORT", default: 3000 } });
+  });
+
+  it("should keep sources separate per box", () => {
+    const box1 = new Box();
+    const box2 = new Box();
+    box1.bind(ConfigSource, { PORT: "1", DATABASE_URL: "a" });
+    box2.bind(ConfigSource, { PORT: "2", DATABASE_URL: "b" });
+
+    expect(box1.get(AppConfig).port).toBe(1);
+    expect(box2.get(AppConfig).port).toBe(2);
+  });
+
+  it("should read from an explicit source", () => {
+    const Source = envSource({ PORT: "3000", DATABASE_URL: "sqlite://" });
+    const LocalConfig = config(
+      { port: { key: "PORT", parse: port } },
+      { source: Source }
+    );
+
+    expect(new Box().get(LocalConfig).port).toBe(3000);
+  });
+
+  describe("jsonFile", () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+      if (dir) rmSync(dir, { recursive: true });
+      dir = undefined;
+    });
+
+    it("should read values from a json file", async () => {
+      dir = mkdtempSync(join(tmpdir(), "getbox-"));
+      const path = join(dir, "config.json");
+      writeFileSync(path, JSON.stringify({ port: 4000, name: "api" }));
+
+      const FileConfig = config(
+        {
+          port: { key: "port", parse: port },
+          name: { key: "name" },
+        },
+        { source: jsonFile(path) }
+      );
+
+      expect(await new Box().getAsync(FileConfig)).toEqual({
+        port: 4000,
+        name: "api",
+      });
+    });
+
+    it("should be overridable without reading the file", async () => {
+      const Source = jsonFile("missing.json");
+      const FileConfig = config({ name: { key: "name" } }, { source: Source });
+
+      const box = new Box();
+      box.override(Source, { name: "test" });
+
+      expect(await box.getAsync(FileConfig)).toEqual({ name: "test" });
+    });
+  });
+});
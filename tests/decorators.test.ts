@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  Box,
+  factory,
+  inject,
+  injectable,
+  lazy,
+  optional,
+  token,
+  transient,
+} from "../src";
+
+class Database {
+  id = Math.random();
+}
+
+interface Logger {
+  log(message: string): void;
+}
+
+const LoggerFactory = factory((): Logger => ({ log: vi.fn() }));
+
+describe("injectable", () => {
+  it("should inject fields from the box", () => {
+    @injectable()
+    class UserService {
+      @inject(Database) db!: Database;
+      @inject(LoggerFactory) logger!: Logger;
+    }
+
+    const box = new Box();
+    const service = box.get(UserService);
+
+    expect(service).toBeInstanceOf(UserService);
+    expect(service.db).toBe(box.get(Database));
+    expect(service.logger).toBe(box.get(LoggerFactory));
+    expect(box.get(UserService)).toBe(service);
+  });
+
+  it("should apply constructor options", () => {
+    @injectable({ name: "Service", lifetime: "transient" })
+    class UserService {
+      @inject(Database) db!: Database;
+    }
+
+    const box = new Box();
+
+    expect(box.get(UserService)).not.toBe(box.get(UserService));
+    expect(UserService.name).toBe("Service");
+  });
+
+  it("should resolve tokens and markers", () => {
+    const LoggerToken = token<Logger>("Logger");
+    const ConfigToken = token<string>("Config");
+
+    @injectable()
+    class UserService {
+      @inject(LoggerToken) logger!: Logger;
+      @inject(optional(ConfigToken)) config?: string;
+      @inject(transient(Database)) db!: Database;
+      @inject(lazy(Database)) shared!: Database;
+    }
+
+    const box = new Box();
+    box.bind(LoggerToken, LoggerFactory);
+    const service = box.get(UserService);
+
+    expect(service.logger).toBe(box.get(LoggerFactory));
+    expect(service.config).toBe(undefined);
+    expect(service.db).not.toBe(box.get(Database));
+    expect(service.shared.id).toBe(box.get(Database).id);
+  });
+
+  it("should inject fields of injectable dependencies", () => {
+    @injectable()
+    class Repository {
+      @inject(Database) db!: Database;
+    }
+
+    @injectable()
+    class UserService {
+      @inject(Repository) repository!: Repository;
+      @inject(Database) db!: Database;
+    }
+
+    const box = new Box();
+    const service = box.get(UserService);
+
+    expect(service.repository.db).toBe(service.db);
+    expect(box.graph().edges).toContainEqual({
+      from: "UserService",
+      to: "Repository",
+      cached: true,
+    });
+  });
+
+  it("should construct subclasses with inherited init", () => {
+    @injectable()
+    class Base {
+      @inject(Database) db!: Database;
+    }
+
+    class Derived extends Base {}
+
+    const box = new Box();
+    const derived = box.get(Derived);
+
+    expect(derived).toBeInstanceOf(Derived);
+    expect(derived.db).toBe(box.get(Database));
+  });
+
+  it("should check field types against the dependency", () => {
+    @injectable()
+    class UserService {
+      // @ts-expect-error Database is not a Logger
+      @inject(Database) logger!: Logger;
+    }
+
+    expect(new Box().get(UserService).logger).toBeInstanceOf(Database);
+  });
+
+  it("should only accept classes without constructor parameters", () => {
+    // @ts-expect-error constructor parameters are not injected
+    @injectable()
+    class UserService {
+      constructor(public db: Database) {}
+    }
+
+    expect(UserService).toHaveProperty("init");
+  });
+
+  it("should reject classes that define init", () => {
+    expect(() => {
+      @injectable()
+      class UserService {
+        static init() {
+          return new UserService();
+        }
+      }
+      return UserService;
+    }).toThrow("@injectable class UserService cannot define init");
+  });
+
+  it("should throw when created outside of a box", () => {
+    class UserService {
+      @inject(Database) db!: Database;
+    }
+
+    expect(() => new UserService()).toThrow(
+      "Cannot inject db, only @injectable classes created by a box are injected"
+    );
+  });
+});
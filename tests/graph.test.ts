@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  DependencyGraph,
+  graphToDot,
+  graphToJSON,
+  graphToMermaid,
+} from "../src";
+
+const graph: DependencyGraph = {
+  nodes: [
+    { id: "App", name: "App", lifetime: "singleton" },
+    { id: "Database", name: "Database", lifetime: "singleton" },
+    { id: "Request", name: "Request", lifetime: "scoped" },
+  ],
+  edges: [
+    { from: "App", to: "Database", cached: true },
+    { from: "App", to: "Request", cached: false },
+  ],
+};
+
+describe("graph", () => {
+  describe("graphToDot", () => {
+    it("should export nodes and edges to Graphviz DOT", () => {
+      expect(graphToDot(graph)).toBe(
+        [
+          "digraph getbox {",
+          '  "App" [label="App"];',
+          '  "Database" [label="Database"];',
+          '  "Request" [label="Request"];',
+          '  "App" -> "Database";',
+          '  "App" -> "Request" [style=dashed];',
+          "}",
+        ].join("\n")
+      );
+    });
+
+    it("should escape quotes in ids", () => {
+      const dot = graphToDot({
+        nodes: [{ id: 'a"b', name: 'a"b', lifetime: "singleton" }],
+        edges: [],
+      });
+
+      expect(dot).toContain('"a\\"b" [label="a\\"b"];');
+    });
+  });
+
+  describe("graphToMermaid", () => {
+    it("should export nodes and edges to a Mermaid flowchart", () => {
+      expect(graphToMermaid(graph)).toBe(
+        [
+          "graph TD",
+          '  n0["App"]',
+          '  n1["Database"]',
+          '  n2["Request"]',
+          "  n0 --> n1",
+          "  n0 -.-> n2",
+        ].join("\n")
+      );
+    });
+
+    it("should reference nodes with generated ids", () => {
+      const mermaid = graphToMermaid({
+        nodes: [
+          { id: "<anonymous>#2", name: "<anonymous>", lifetime: "singleton" },
+        ],
+        edges: [],
+      });
+
+      expect(mermaid).toBe('graph TD\n  n0["<anonymous>"]');
+    });
+  });
+
+  describe("graphToJSON", () => {
+    it("should export a graph that parses back to the same structure", () => {
+      expect(JSON.parse(graphToJSON(graph))).toEqual(graph);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createServer,
+  IncomingMessage,
+  RequestListener,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import { Box, factory, Token, use } from "../src";
+import {
+  boxOf,
+  expressMiddleware,
+  fastifyHooks,
+  honoMiddleware,
+  HttpRequest,
+  nodeHandler,
+} from "../src/http";
+
+const Request = HttpRequest as Token<IncomingMessage>;
+
+const disposed = vi.fn();
+const RequestUrl = factory(
+  (box) => ({ url: box.get(Request).url, [Symbol.dispose]: disposed }),
+  { lifetime: "scoped" }
+);
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  disposed.mockClear();
+  await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+  server = undefined;
+});
+
+async function listen(listener: RequestListener) {
+  server = createServer(listener);
+  await new Promise<void>((resolve) => server!.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  return `http://localhost:${port}`;
+}
+
+function closed(response: ServerResponse) {
+  return new Promise((resolve) => response.once("close", resolve));
+}
+
+describe("nodeHandler", () => {
+  it("should resolve the request from a request box", async () => {
+    const app = new Box();
+    const url = await listen(
+      nodeHandler(app, (req, res) => {
+        res.end(use(RequestUrl).url);
+      })
+    );
+
+    expect(await (await fetch(`${url}/users`)).text()).toBe("/users");
+    expect(await (await fetch(`${url}/posts`)).text()).toBe("/posts");
+  });
+
+  it("should create a child box of the application box per request", async () => {
+    const app = new Box();
+    const boxes: Box[] = [];
+    const Shared = factory(() => ({}));
+    const url = await listen(
+      nodeHandler(app, (req, res) => {
+        const box = boxOf(req);
+        boxes.push(box);
+        expect(box.get(Shared)).toBe(app.get(Shared));
+        res.end();
+      })
+    );
+
+    await fetch(url);
+    await fetch(url);
+
+    expect(boxes[0]).not.toBe(boxes[1]);
+  });
+
+  it("should dispose the request box when the response finishes", async () => {
+    const app = new Box();
+    let done: Promise<unknown> | undefined;
+    const url = await listen(
+      nodeHandler(app, (req, res) => {
+        use(RequestUrl);
+        done = closed(res);
+        res.end();
+      })
+    );
+
+    await fetch(url);
+    await done;
+    await vi.waitFor(() => expect(disposed).toHaveBeenCalledTimes(1));
+  });
+
+  it("should dispose the request box when the request is aborted", async () => {
+    const app = new Box();
+    let done: Promise<unknown> | undefined;
+    const url = await listen(
+      nodeHandler(app, (req, res) => {
+        use(RequestUrl);
+        done = closed(res);
+      })
+    );
+
+    const controller = new AbortController();
+    const request = fetch(url, { signal: controller.signal });
+    await vi.waitFor(() => expect(done).toBeDefined());
+    controller.abort();
+
+    await expect(request).rejects.toThrow();
+    await done;
+    await vi.waitFor(() => expect(disposed).toHaveBeenCalledTimes(1));
+  });
+
+  it("should report disposal errors", async () => {
+    const app = new Box();
+    const onDisposeError = vi.fn();
+    const Failing = factory(() => ({}), {
+      lifetime: "scoped",
+      dispose: () => {
+        throw new Error("dispose failed");
+      },
+    });
+    const url = await listen(
+      nodeHandler(
+        app,
+        (req, res) => {
+          use(Failing);
+          res.end();
+        },
+        { onDisposeError }
+      )
+    );
+
+    await fetch(url);
+    await vi.waitFor(() => expect(onDisposeError).toHaveBeenCalledTimes(1));
+    expect(onDisposeError.mock.calls[0][0]).toBeInstanceOf(AggregateError);
+  });
+});
+
+describe("expressMiddleware", () => {
+  it("should run the next handlers in the request box", async () => {
+    const app = new Box();
+    const middleware = expressMiddleware(app);
+    const url = await listen((req, res) => {
+      middleware(req, res, () => {
+        expect(boxOf(req).get(Request)).toBe(req);
+        res.end(use(RequestUrl).url);
+      });
+    });
+
+    expect(await (await fetch(`${url}/express`)).text()).toBe("/express");
+    await vi.waitFor(() => expect(disposed).toHaveBeenCalledTimes(1));
+  });
+});
+
+describe("fastifyHooks", () => {
+  // the fastify request wraps the node request
+  const FastifyUrl = factory(
+    (box) => (box.get(HttpRequest) as { raw: IncomingMessage }).raw.url,
+    { lifetime: "scoped" }
+  );
+
+  it("should create a request box in the onRequest hook", async () => {
+    const app = new Box();
+    type Hook = Parameters<Parameters<typeof fastifyHooks>[0]["addHook"]>[1];
+    const hooks: Hook[] = [];
+    fastifyHooks({ addHook: (name, hook) => hooks.push(hook) }, app);
+
+    const url = await listen((raw, reply) => {
+      const request = { raw };
+      hooks[0](request, { raw: reply }, () => {
+        expect(boxOf(request).get(HttpRequest)).toBe(request);
+        reply.end(use(FastifyUrl));
+      });
+    });
+
+    expect(await (await fetch(`${url}/fastify`)).text()).toBe("/fastify");
+  });
+});
+
+describe("honoMiddleware", () => {
+  it("should dispose the request box after the handlers", async () => {
+    const app = new Box();
+    const middleware = honoMiddleware(app);
+    const context = { req: { url: "/hono" } };
+    const Url = factory((box) => box.get(HttpRequest) as { url: string }, {
+      lifetime: "scoped",
+      dispose: disposed,
+    });
+
+    await middleware(context, async () => {
+      await Promise.resolve();
+      expect(use(Url).url).toBe("/hono");
+      expect(boxOf(context).get(Url)).toBe(use(Url));
+      expect(disposed).not.toHaveBeenCalled();
+    });
+
+    expect(disposed).toHaveBeenCalledTimes(1);
+  });
+
+  it("should dispose the request box when a handler throws", async () => {
+    const app = new Box();
+    const middleware = honoMiddleware(app);
+    const Url = factory(() => ({}), { lifetime: "scoped", dispose: disposed });
+
+    await expect(
+      middleware({ req: {} }, async () => {
+        use(Url);
+        throw new Error("handler failed");
+      })
+    ).rejects.toThrow("handler failed");
+    expect(disposed).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("boxOf", () => {
+  it("should throw for requests without a request box", () => {
+    expect(() => boxOf({})).toThrow(
+      "No request box, is the getbox adapter installed?"
+    );
+  });
+});
@@ -1,5 +1,30 @@
-import { describe, it, expect } from "vitest";
-import { Box, factory, constant, ConstructorInstanceType } from "../src";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  Box,
+  factory,
+  asyncFactory,
+  constant,
+  defineModule,
+  hot,
+  use,
+  useBox,
+  lazy,
+  optional,
+  transient,
+  multi,
+  token,
+  ConstructorInstanceType,
+  CircularDependencyError,
+  ResolutionError,
+  UnboundTokenError,
+  ModuleAccessError,
+  Resolvable,
+  Serializable,
+} from "../src";
+
+function nameOf(constructor: Resolvable) {
+  return String((constructor as { name?: string }).name);
+}
 
 describe("Box", () => {
   describe("new", () => {
@@ -501,6 +526,3244 @@ describe("Box", () => {
       expect(instance2.dep).toBe(cachedDep);
       expect(instance1.dep).toBe(instance2.dep);
     });
+
+    it("should pass raw values through as arguments", () => {
+      const box = new Box();
+
+      class Logger {
+        id = Math.random();
+      }
+
+      class Client {
+        constructor(
+          public logger: Logger,
+          public url: string,
+          public options: { retries: number }
+        ) {}
+      }
+
+      const client = box
+        .for(Client)
+        .get(Logger, "https://example.com", { retries: 3 });
+
+      expect(client.logger).toBe(box.get(Logger));
+      expect(client.url).toBe("https://example.com");
+      expect(client.options).toEqual({ retries: 3 });
+
+      expect(() =>
+        // @ts-expect-error raw values must match the parameter type
+        box.for(Client).get(Logger, 42, { retries: 3 })
+      ).not.toThrow();
+    });
+
+    it("should pass functions wrapped with constant as values", () => {
+      const box = new Box();
+      const fetcher = () => "response";
+
+      class Client {
+        constructor(public fetch: () => string) {}
+      }
+
+      const client = box.for(Client).get(constant(fetcher));
+
+      expect(client.fetch).toBe(fetcher);
+    });
+
+    it("should pass arrow functions through as arguments", () => {
+      const box = new Box();
+
+      class Client {
+        constructor(public url: string, public retries: () => number) {}
+      }
+
+      const client = box.for(Client).get("https://api", () => 42);
+
+      expect(client.url).toBe("https://api");
+      expect(client.retries()).toBe(42);
+    });
+
+    it("should create transient arguments while others are cached", () => {
+      const box = new Box();
+
+      class Shared {
+        id = Math.random();
+      }
+
+      class Session {
+        id = Math.random();
+      }
+
+      class Handler {
+        constructor(public shared: Shared, public session: Session) {}
+      }
+
+      const handler1 = box.for(Handler).get(Shared, transient(Session));
+      const handler2 = box.for(Handler).get(Shared, transient(Session));
+
+      expect(handler1.shared).toBe(handler2.shared);
+      expect(handler1.session).not.toBe(handler2.session);
+      expect(box.get(Session)).not.toBe(handler1.session);
+    });
+
+    it("should resolve optional arguments to undefined when unbound", () => {
+      interface Logger {
+        log(message: string): void;
+      }
+      const LoggerToken = token<Logger>("Logger");
+
+      class Service {
+        constructor(public logger?: Logger) {}
+      }
+
+      const box = new Box();
+      expect(box.for(Service).get(optional(LoggerToken)).logger).toBe(
+        undefined
+      );
+
+      const logger = { log: vi.fn() };
+      box.bind(LoggerToken, logger);
+      expect(box.for(Service).get(optional(LoggerToken)).logger).toBe(logger);
+    });
+
+    it("should not hide missing bindings of optional dependencies", () => {
+      const ConfigToken = token<string>("Config");
+
+      class Logger {
+        constructor(public config: string) {}
+        static init(box: Box) {
+          return new Logger(box.get(ConfigToken));
+        }
+      }
+
+      class Service {
+        constructor(public logger?: Logger) {}
+      }
+
+      const box = new Box();
+
+      expect(() => box.for(Service).get(optional(Logger))).toThrow(
+        UnboundTokenError
+      );
+    });
+
+    it("should cache the instance with cached", () => {
+      const box = new Box();
+
+      class Dependency {
+        id = Math.random();
+      }
+
+      class App {
+        constructor(public dep: Dependency, public name: string) {}
+      }
+
+      const app1 = box.for(App).cached(Dependency, "app");
+      const app2 = box.for(App).cached(Dependency, "other");
+
+      expect(app1).toBe(app2);
+      expect(app1.dep).toBe(box.get(Dependency));
+      expect(box.for(App).get(Dependency, "app")).not.toBe(app1);
+      expect(box.graph().edges).toContainEqual({
+        from: "App",
+        to: "Dependency",
+        cached: true,
+      });
+    });
+
+    it("should dispose cached instances with the box", () => {
+      const box = new Box();
+
+      class Resource {
+        constructor(public name: string) {}
+        [Symbol.dispose] = vi.fn();
+      }
+
+      const resource = box.for(Resource).cached("db");
+      box.dispose();
+
+      expect(resource[Symbol.dispose]).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("asyncFactory", () => {
+    it("should resolve and cache async factory values with getAsync", async () => {
+      const box = new Box();
+
+      const TestFactory = asyncFactory(async (box: Box) => {
+        return { value: Math.random() };
+      });
+
+      const instance1 = await box.getAsync(TestFactory);
+      const instance2 = await box.getAsync(TestFactory);
+
+      expect(instance1).toBe(instance2);
+      expect(instance1.value).toBe(instance2.value);
+    });
+
+    it("should create a new value each time with newAsync", async () => {
+      const box = new Box();
+
+      const TestFactory = asyncFactory(async (box: Box) => {
+        return { value: Math.random() };
+      });
+
+      const instance1 = await box.newAsync(TestFactory);
+      const instance2 = await box.newAsync(TestFactory);
+      const cached = await box.getAsync(TestFactory);
+
+      expect(instance1).not.toBe(instance2);
+      expect(cached).not.toBe(instance1);
+      expect(cached).not.toBe(instance2);
+    });
+
+    it("should share in-flight initialization between concurrent calls", async () => {
+      const box = new Box();
+      let calls = 0;
+
+      const TestFactory = asyncFactory(async (box: Box) => {
+        calls++;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return { value: Math.random() };
+      });
+
+      const [instance1, instance2] = await Promise.all([
+        box.getAsync(TestFactory),
+        box.getAsync(TestFactory),
+      ]);
+
+      expect(calls).toBe(1);
+      expect(instance1).toBe(instance2);
+    });
+
+    it("should not cache rejected initialization so it can be retried", async () => {
+      const box = new Box();
+      let attempts = 0;
+
+      const TestFactory = asyncFactory(async (box: Box) => {
+        attempts++;
+        if (attempts === 1) throw new Error("connection refused");
+        return { attempts };
+      });
+
+      await expect(box.getAsync(TestFactory)).rejects.toThrow(
+        "connection refused"
+      );
+
+      const instance = await box.getAsync(TestFactory);
+
+      expect(instance.attempts).toBe(2);
+      expect(await box.getAsync(TestFactory)).toBe(instance);
+    });
+
+    it("should resolve sync constructors and share the sync cache", async () => {
+      const box = new Box();
+
+      class TestClass {
+        value = Math.random();
+      }
+
+      const instance = await box.getAsync(TestClass);
+
+      expect(instance).toBeInstanceOf(TestClass);
+      expect(box.get(TestClass)).toBe(instance);
+    });
+
+    it("should resolve async dependencies inside async factories", async () => {
+      const box = new Box();
+
+      const ConfigFactory = asyncFactory(async (box: Box) => {
+        return { url: "postgres://localhost:5432/mydb" };
+      });
+
+      class Database {
+        constructor(public url: string) {}
+
+        static async initAsync(box: Box) {
+          const config = await box.getAsync(ConfigFactory);
+          return new Database(config.url);
+        }
+      }
+
+      const db = await box.getAsync(Database);
+
+      expect(db).toBeInstanceOf(Database);
+      expect(db.url).toBe("postgres://localhost:5432/mydb");
+    });
+
+    it("should infer instance type of async constructors", async () => {
+      const box = new Box();
+
+      const TestFactory = asyncFactory(async (box: Box) => {
+        return { type: "async" };
+      });
+
+      const instance: ConstructorInstanceType<typeof TestFactory> =
+        await box.getAsync(TestFactory);
+
+      expect(instance.type).toBe("async");
+    });
+  });
+
+  describe("child", () => {
+    it("should share singletons with the parent box", () => {
+      const box = new Box();
+
+      class Database {
+        id = Math.random();
+      }
+
+      const child1 = box.child();
+      const child2 = box.child();
+
+      expect(child1.get(Database)).toBe(child2.get(Database));
+      expect(child1.get(Database)).toBe(box.get(Database));
+    });
+
+    it("should cache scoped instances per child box", () => {
+      const box = new Box();
+
+      class RequestContext {
+        static lifetime = "scoped" as const;
+        id = Math.random();
+      }
+
+      const child1 = box.child();
+      const child2 = box.child();
+
+      expect(child1.get(RequestContext)).toBe(child1.get(RequestContext));
+      expect(child1.get(RequestContext)).not.toBe(child2.get(RequestContext));
+      expect(box.get(RequestContext)).not.toBe(child1.get(RequestContext));
+    });
+
+    it("should create transient instances on every get", () => {
+      const box = new Box();
+
+      const IdFactory = factory(() => ({ id: Math.random() }), {
+        lifetime: "transient",
+      });
+
+      expect(box.get(IdFactory)).not.toBe(box.get(IdFactory));
+      expect(box.child().get(IdFactory)).not.toBe(box.get(IdFactory));
+    });
+
+    it("should resolve scoped dependencies from the child box", () => {
+      const box = new Box();
+
+      class Database {
+        id = Math.random();
+      }
+
+      const RequestFactory = factory(() => ({ id: Math.random() }), {
+        lifetime: "scoped",
+      });
+
+      class Handler {
+        static lifetime = "scoped" as const;
+
+        constructor(
+          public db: Database,
+          public request: ConstructorInstanceType<typeof RequestFactory>
+        ) {}
+
+        static init(box: Box) {
+          return new Handler(box.get(Database), box.get(RequestFactory));
+        }
+      }
+
+      const child1 = box.child();
+      const child2 = box.child();
+      const handler1 = child1.get(Handler);
+      const handler2 = child2.get(Handler);
+
+      expect(handler1.db).toBe(handler2.db);
+      expect(handler1.request).toBe(child1.get(RequestFactory));
+      expect(handler2.request).toBe(child2.get(RequestFactory));
+      expect(handler1.request).not.toBe(handler2.request);
+    });
+
+    it("should create singletons with the parent box", () => {
+      const box = new Box();
+
+      const ScopeFactory = factory((box: Box) => box);
+
+      const child = box.child();
+
+      expect(child.get(ScopeFactory)).toBe(box);
+    });
+
+    it("should prefer values mocked in the child box", () => {
+      const box = new Box();
+
+      class Database {
+        value = "original";
+      }
+
+      const child = box.child();
+      Box.mock(child, Database, { value: "mocked" });
+
+      expect(child.get(Database).value).toBe("mocked");
+      expect(box.get(Database).value).toBe("original");
+    });
+
+    it("should respect lifetimes with getAsync", async () => {
+      const box = new Box();
+
+      const ConnectionFactory = asyncFactory(async () => ({
+        id: Math.random(),
+      }));
+
+      const SessionFactory = asyncFactory(async () => ({ id: Math.random() }), {
+        lifetime: "scoped",
+      });
+
+      const child1 = box.child();
+      const child2 = box.child();
+
+      expect(await child1.getAsync(ConnectionFactory)).toBe(
+        await child2.getAsync(ConnectionFactory)
+      );
+      expect(await child1.getAsync(SessionFactory)).toBe(
+        await child1.getAsync(SessionFactory)
+      );
+      expect(await child1.getAsync(SessionFactory)).not.toBe(
+        await child2.getAsync(SessionFactory)
+      );
+    });
+
+    it("should only dispose scoped instances of the child box", () => {
+      const box = new Box();
+      const disposed: string[] = [];
+
+      class Database {
+        [Symbol.dispose]() {
+          disposed.push("database");
+        }
+      }
+
+      class RequestContext {
+        static lifetime = "scoped" as const;
+
+        [Symbol.dispose]() {
+          disposed.push("request");
+        }
+      }
+
+      const child = box.child();
+      child.get(Database);
+      child.get(RequestContext);
+      child.dispose();
+
+      expect(disposed).toEqual(["request"]);
+
+      box.dispose();
+
+      expect(disposed).toEqual(["request", "database"]);
+    });
+  });
+
+  describe("dispose", () => {
+    it("should dispose cached instances in reverse creation order", () => {
+      const box = new Box();
+      const disposed: string[] = [];
+
+      class Database {
+        [Symbol.dispose]() {
+          disposed.push("database");
+        }
+      }
+
+      class Repository {
+        constructor(public db: Database) {}
+
+        static init(box: Box) {
+          return new Repository(box.get(Database));
+        }
+
+        [Symbol.dispose]() {
+          disposed.push("repository");
+        }
+      }
+
+      class Service {
+        constructor(public repo: Repository) {}
+
+        static init(box: Box) {
+          return new Service(box.get(Repository));
+        }
+
+        [Symbol.dispose]() {
+          disposed.push("service");
+        }
+      }
+
+      box.get(Service);
+      box.dispose();
+
+      expect(disposed).toEqual(["service", "repository", "database"]);
+    });
+
+    it("should use dispose hooks declared on factories and classes", () => {
+      const box = new Box();
+      const disposed: unknown[] = [];
+
+      const ConnectionFactory = factory((box: Box) => ({ open: true }), {
+        dispose: (connection) => {
+          connection.open = false;
+          disposed.push(connection);
+        },
+      });
+
+      class Server {
+        static dispose(server: Server) {
+          disposed.push(server);
+        }
+      }
+
+      const connection = box.get(ConnectionFactory);
+      const server = box.get(Server);
+      box.dispose();
+
+      expect(connection.open).toBe(false);
+      expect(disposed).toEqual([server, connection]);
+    });
+
+    it("should not dispose transient or mocked instances", () => {
+      const box = new Box();
+      let disposed = 0;
+
+      class TestClass {
+        [Symbol.dispose]() {
+          disposed++;
+        }
+      }
+
+      const ValueFactory = factory(() => new TestClass());
+
+      box.new(TestClass);
+      Box.mock(box, ValueFactory, new TestClass());
+      box.get(ValueFactory);
+      box.dispose();
+
+      expect(disposed).toBe(0);
+    });
+
+    it("should clear the cache after dispose", () => {
+      const box = new Box();
+
+      class TestClass {
+        value = Math.random();
+      }
+
+      const instance1 = box.get(TestClass);
+      box.dispose();
+      const instance2 = box.get(TestClass);
+
+      expect(instance1).not.toBe(instance2);
+    });
+
+    it("should aggregate failures and keep disposing", () => {
+      const box = new Box();
+      const disposed: string[] = [];
+
+      class A {
+        [Symbol.dispose]() {
+          disposed.push("a");
+        }
+      }
+
+      class B {
+        [Symbol.dispose]() {
+          throw new Error("b failed");
+        }
+      }
+
+      class C {
+        [Symbol.dispose]() {
+          throw new Error("c failed");
+        }
+      }
+
+      box.get(A);
+      box.get(B);
+      box.get(C);
+
+      let error: unknown;
+      try {
+        box.dispose();
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(AggregateError);
+      expect((error as AggregateError).errors.map((e) => e.message)).toEqual([
+        "c failed",
+        "b failed",
+      ]);
+      expect(disposed).toEqual(["a"]);
+    });
+
+    it("should reject async disposers in sync dispose", () => {
+      const box = new Box();
+
+      class TestClass {
+        async [Symbol.asyncDispose]() {}
+      }
+
+      box.get(TestClass);
+
+      expect(() => box.dispose()).toThrow(AggregateError);
+    });
+
+    it("should await async disposers with asyncDispose", async () => {
+      const box = new Box();
+      const disposed: string[] = [];
+
+      const PoolFactory = asyncFactory(async (box: Box) => ({}), {
+        dispose: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          disposed.push("pool");
+        },
+      });
+
+      class Client {
+        async [Symbol.asyncDispose]() {
+          disposed.push("client");
+        }
+      }
+
+      class Logger {
+        [Symbol.dispose]() {
+          disposed.push("logger");
+        }
+      }
+
+      await box.getAsync(PoolFactory);
+      box.get(Client);
+      box.get(Logger);
+      await box.asyncDispose();
+
+      expect(disposed).toEqual(["logger", "client", "pool"]);
+    });
+
+    it("should implement disposable protocols for using declarations", async () => {
+      const disposed: string[] = [];
+
+      class SyncResource {
+        [Symbol.dispose]() {
+          disposed.push("sync");
+        }
+      }
+
+      class AsyncResource {
+        async [Symbol.asyncDispose]() {
+          disposed.push("async");
+        }
+      }
+
+      const box = new Box();
+
+      box.get(SyncResource);
+      box[Symbol.dispose]();
+
+      box.get(AsyncResource);
+      await box[Symbol.asyncDispose]();
+
+      expect(disposed).toEqual(["sync", "async"]);
+    });
+  });
+
+  describe("circular dependencies", () => {
+    it("should throw with the resolution path of a cycle", () => {
+      const box = new Box();
+
+      class UserService {
+        static init(box: Box): UserService {
+          box.get(AuthService);
+          return new UserService();
+        }
+      }
+
+      class AuthService {
+        static init(box: Box): AuthService {
+          box.get(UserService);
+          return new AuthService();
+        }
+      }
+
+      let error: unknown;
+      try {
+        box.get(UserService);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(CircularDependencyError);
+      expect((error as CircularDependencyError).path).toEqual([
+        UserService,
+        AuthService,
+        UserService,
+      ]);
+      expect((error as Error).message).toBe(
+        "Circular dependency detected: UserService -> AuthService -> UserService"
+      );
+    });
+
+    it("should detect cycles with box.new and use factory names", () => {
+      const box = new Box();
+
+      const AFactory: any = factory((box: Box) => box.new(BFactory), {
+        name: "AFactory",
+      });
+      const BFactory: any = factory((box: Box) => box.new(AFactory));
+
+      expect(() => box.new(AFactory)).toThrow(
+        "Circular dependency detected: AFactory -> <anonymous> -> AFactory"
+      );
+    });
+
+    it("should detect cycles through box.for", () => {
+      const box = new Box();
+
+      class Database {
+        static init(box: Box): Database {
+          box.for(Repository).get(Database);
+          return new Database();
+        }
+      }
+
+      class Repository {
+        constructor(public db: Database) {}
+      }
+
+      expect(() => box.for(Repository).get(Database)).toThrow(
+        "Circular dependency detected: Repository -> Database -> Repository"
+      );
+    });
+
+    it("should allow box.for inside static init of the same class", () => {
+      const box = new Box();
+
+      class Database {}
+
+      class Repository {
+        constructor(public db: Database) {}
+
+        static init(box: Box) {
+          return box.for(Repository).get(Database);
+        }
+      }
+
+      expect(box.get(Repository).db).toBe(box.get(Database));
+    });
+
+    it("should detect cycles across child boxes", () => {
+      const box = new Box();
+
+      class Session {
+        static lifetime = "scoped" as const;
+
+        static init(box: Box): Session {
+          box.get(Config);
+          return new Session();
+        }
+      }
+
+      class Config {
+        static init(box: Box): Config {
+          box.get(Session);
+          return new Config();
+        }
+      }
+
+      expect(() => box.child().get(Session)).toThrow(CircularDependencyError);
+    });
+
+    it("should detect cycles between async factories", async () => {
+      const box = new Box();
+
+      const AFactory: any = asyncFactory(
+        async (box: Box) => box.getAsync(BFactory),
+        { name: "AFactory" }
+      );
+      const BFactory: any = asyncFactory(
+        async (box: Box) => box.getAsync(AFactory),
+        { name: "BFactory" }
+      );
+
+      await expect(box.getAsync(AFactory)).rejects.toThrow(
+        "Circular dependency detected: AFactory -> BFactory -> AFactory"
+      );
+    });
+
+    it("should detect cycles between async factories after an await", async () => {
+      const box = new Box();
+
+      const AFactory: any = asyncFactory(
+        async (box: Box) => {
+          await null;
+          return box.getAsync(BFactory);
+        },
+        { name: "AFactory" }
+      );
+      const BFactory: any = asyncFactory(
+        async (box: Box) => {
+          await null;
+          return box.getAsync(AFactory);
+        },
+        { name: "BFactory" }
+      );
+
+      await expect(box.getAsync(AFactory)).rejects.toThrow(
+        "Circular dependency detected: AFactory -> BFactory -> AFactory"
+      );
+    });
+
+    it("should release the path once async init has settled", async () => {
+      const box = new Box();
+
+      type Service = { refresh(): Promise<Service> };
+      const A: any = asyncFactory(
+        async (box: Box): Promise<Service> => ({
+          refresh: () => box.newAsync(A),
+        }),
+        { name: "A" }
+      );
+
+      const a: Service = await box.getAsync(A);
+
+      await expect(a.refresh()).resolves.toHaveProperty("refresh");
+      expect(box.graph().edges).toEqual([]);
+    });
+
+    it("should not report concurrent async resolutions as cycles", async () => {
+      const box = new Box();
+
+      const Shared = asyncFactory(async () => {
+        await null;
+        return {};
+      });
+      const A = asyncFactory(async (box) => {
+        await null;
+        return box.getAsync(Shared);
+      });
+      const B = asyncFactory(async (box) => {
+        await null;
+        return box.getAsync(Shared);
+      });
+
+      const [a, b] = await Promise.all([box.getAsync(A), box.getAsync(B)]);
+      expect(a).toBe(b);
+    });
+
+    it("should recover after a cycle is detected", () => {
+      const box = new Box();
+
+      class A {
+        static init(box: Box): A {
+          box.get(A);
+          return new A();
+        }
+      }
+
+      class B {}
+
+      expect(() => box.get(A)).toThrow(CircularDependencyError);
+      expect(box.get(B)).toBeInstanceOf(B);
+    });
+  });
+
+  describe("resolution errors", () => {
+    it("should wrap failures with the dependency path and cause", () => {
+      const box = new Box();
+      const cause = new Error("missing DATABASE_URL");
+
+      class Database {
+        constructor() {
+          throw cause;
+        }
+      }
+
+      class Repository {
+        static init(box: Box) {
+          box.get(Database);
+          return new Repository();
+        }
+      }
+
+      class App {
+        static init(box: Box) {
+          box.get(Repository);
+          return new App();
+        }
+      }
+
+      let error: unknown;
+      try {
+        box.get(App);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ResolutionError);
+      expect((error as ResolutionError).path).toEqual([
+        App,
+        Repository,
+        Database,
+      ]);
+      expect((error as ResolutionError).source).toBe(Database);
+      expect((error as ResolutionError).cause).toBe(cause);
+      expect((error as Error).message).toBe(
+        "Failed to resolve App -> Repository -> Database: missing DATABASE_URL"
+      );
+    });
+
+    it("should not cache ancestors of a failed dependency", () => {
+      const box = new Box();
+      let configured = false;
+      let appCreated = 0;
+
+      class Logger {}
+
+      const ConfigFactory = factory(
+        () => {
+          if (!configured) throw new Error("not configured");
+          return { url: "postgres://localhost" };
+        },
+        { name: "ConfigFactory" }
+      );
+
+      class App {
+        constructor(public logger: Logger, public config: { url: string }) {
+          appCreated++;
+        }
+
+        static init(box: Box) {
+          return new App(box.get(Logger), box.get(ConfigFactory));
+        }
+      }
+
+      expect(() => box.get(App)).toThrow(
+        "Failed to resolve App -> ConfigFactory: not configured"
+      );
+      const logger = box.get(Logger);
+
+      configured = true;
+      const app = box.get(App);
+
+      expect(app.config.url).toBe("postgres://localhost");
+      expect(app.logger).toBe(logger);
+      expect(appCreated).toBe(1);
+      expect(box.get(App)).toBe(app);
+    });
+
+    it("should wrap failures of box.for constructors", () => {
+      const box = new Box();
+
+      class Database {
+        constructor() {
+          throw new Error("connection refused");
+        }
+      }
+
+      class Repository {
+        constructor(public db: Database) {}
+      }
+
+      expect(() => box.for(Repository).get(Database)).toThrow(
+        "Failed to resolve Repository -> Database: connection refused"
+      );
+    });
+
+    it("should keep the full path across async boundaries", async () => {
+      const box = new Box();
+
+      const ConfigFactory = asyncFactory(async () => ({}), {
+        name: "ConfigFactory",
+      });
+
+      const SecretsFactory = asyncFactory(
+        async () => {
+          throw new Error("access denied");
+        },
+        { name: "SecretsFactory" }
+      );
+
+      const DatabaseFactory = asyncFactory(
+        async (box: Box) => {
+          await box.getAsync(ConfigFactory);
+          return box.getAsync(SecretsFactory);
+        },
+        { name: "DatabaseFactory" }
+      );
+
+      let error: unknown;
+      try {
+        await box.getAsync(DatabaseFactory);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ResolutionError);
+      expect((error as ResolutionError).path).toEqual([
+        DatabaseFactory,
+        SecretsFactory,
+      ]);
+      expect((error as ResolutionError).source).toBe(SecretsFactory);
+      expect((error as Error).message).toBe(
+        "Failed to resolve DatabaseFactory -> SecretsFactory: access denied"
+      );
+    });
+
+    it("should be the base class of circular dependency errors", () => {
+      const box = new Box();
+
+      class A {
+        static init(box: Box): A {
+          return box.get(A);
+        }
+      }
+
+      expect(() => box.get(A)).toThrow(ResolutionError);
+    });
+  });
+
+  describe("graph", () => {
+    it("should record dependencies resolved inside init", () => {
+      const box = new Box();
+
+      class Database {}
+
+      class Logger {}
+
+      class Repository {
+        static init(box: Box) {
+          box.get(Database);
+          box.new(Logger);
+          return new Repository();
+        }
+      }
+
+      box.get(Repository);
+
+      expect(box.graph()).toEqual({
+        nodes: [
+          { id: "Repository", name: "Repository", lifetime: "singleton" },
+          { id: "Database", name: "Database", lifetime: "singleton" },
+          { id: "Logger", name: "Logger", lifetime: "singleton" },
+        ],
+        edges: [
+          { from: "Repository", to: "Database", cached: true },
+          { from: "Repository", to: "Logger", cached: false },
+        ],
+      });
+    });
+
+    it("should record dependencies resolved after an await", async () => {
+      const box = new Box();
+
+      class Config {}
+
+      const Other = asyncFactory(async () => "other", { name: "Other" });
+      const Service = asyncFactory(
+        async (box) => {
+          await box.getAsync(Other);
+          return { config: box.get(Config) };
+        },
+        { name: "Service" }
+      );
+
+      await box.getAsync(Service);
+
+      expect(box.graph().edges).toEqual([
+        { from: "Service", to: "Other", cached: true },
+        { from: "Service", to: "Config", cached: true },
+      ]);
+    });
+
+    it("should record each edge once", () => {
+      const box = new Box();
+
+      class Database {}
+
+      class Repository {
+        static init(box: Box) {
+          box.get(Database);
+          return new Repository();
+        }
+      }
+
+      box.new(Repository);
+      box.new(Repository);
+      box.get(Repository);
+
+      expect(box.graph().edges).toEqual([
+        { from: "Repository", to: "Database", cached: true },
+      ]);
+    });
+
+    it("should record dependencies of box.for and lifetimes", () => {
+      const box = new Box();
+
+      const LoggerFactory = factory(() => console, {
+        name: "LoggerFactory",
+        lifetime: "transient",
+      });
+
+      class Service {
+        constructor(public logger: Console) {}
+      }
+
+      box.for(Service).get(LoggerFactory);
+
+      expect(box.graph()).toEqual({
+        nodes: [
+          { id: "Service", name: "Service", lifetime: "singleton" },
+          { id: "LoggerFactory", name: "LoggerFactory", lifetime: "transient" },
+        ],
+        edges: [{ from: "Service", to: "LoggerFactory", cached: false }],
+      });
+    });
+
+    it("should disambiguate constructors with the same name", () => {
+      const box = new Box();
+
+      const A = factory(() => 1);
+      const B = factory(() => 2);
+
+      box.get(A);
+      box.get(B);
+
+      expect(box.graph().nodes.map((node) => node.id)).toEqual([
+        "<anonymous>",
+        "<anonymous>#2",
+      ]);
+    });
+
+    it("should share the graph with child boxes", () => {
+      const box = new Box();
+
+      class Database {}
+
+      class Handler {
+        static lifetime = "scoped" as const;
+
+        static init(box: Box) {
+          box.get(Database);
+          return new Handler();
+        }
+      }
+
+      box.child().get(Handler);
+
+      expect(box.graph().edges).toEqual([
+        { from: "Handler", to: "Database", cached: true },
+      ]);
+    });
+  });
+
+  describe("resolve", () => {
+    class Database {
+      id = Math.random();
+    }
+
+    interface Logger {
+      log(message: string): void;
+    }
+
+    const LoggerFactory = factory((): Logger => ({ log: vi.fn() }));
+
+    it("should resolve a record of constructors with get", () => {
+      const box = new Box();
+
+      const deps = box.resolve({ db: Database, log: LoggerFactory });
+      const db: Database = deps.db;
+      const log: Logger = deps.log;
+
+      expect(db).toBe(box.get(Database));
+      expect(log).toBe(box.get(LoggerFactory));
+    });
+
+    it("should resolve markers and raw values in a record", () => {
+      const LoggerToken = token<Logger>("Logger");
+      const box = new Box();
+
+      const deps = box.resolve({
+        db: transient(Database),
+        log: optional(LoggerToken),
+        url: "https://example.com",
+      });
+      const db: Database = deps.db;
+      const log: Logger | undefined = deps.log;
+      const url: string = deps.url;
+
+      expect(db).not.toBe(box.get(Database));
+      expect(log).toBe(undefined);
+      expect(url).toBe("https://example.com");
+    });
+
+    it("should create classes that take an options object with props", () => {
+      const box = new Box();
+
+      class UserService {
+        constructor(public deps: { db: Database; log: Logger; name: string }) {}
+      }
+
+      const service = box
+        .for(UserService)
+        .props({ db: Database, log: LoggerFactory, name: "users" });
+
+      expect(service).toBeInstanceOf(UserService);
+      expect(service.deps.db).toBe(box.get(Database));
+      expect(service.deps.log).toBe(box.get(LoggerFactory));
+      expect(service.deps.name).toBe("users");
+      expect(box.for(UserService).props(service.deps)).not.toBe(service);
+    });
+
+    it("should check props against the options type", () => {
+      const box = new Box();
+
+      class UserService {
+        constructor(public deps: { db: Database; name: string }) {}
+      }
+
+      expect(() =>
+        // @ts-expect-error name must be a string
+        box.for(UserService).props({ db: Database, name: 1 })
+      ).not.toThrow();
+    });
+
+    it("should record props dependencies in the graph", () => {
+      const box = new Box();
+
+      class UserService {
+        constructor(public deps: { db: Database }) {}
+        static init(box: Box) {
+          return box.for(UserService).props({ db: Database });
+        }
+      }
+
+      box.get(UserService);
+
+      expect(box.graph().edges).toContainEqual({
+        from: "UserService",
+        to: "Database",
+        cached: true,
+      });
+    });
+  });
+
+  describe("lazy", () => {
+    it("should defer construction until first access", () => {
+      const box = new Box();
+      let created = 0;
+
+      class Mailer {
+        constructor() {
+          created++;
+        }
+
+        send(to: string) {
+          return `sent to ${to}`;
+        }
+      }
+
+      const mailer = box.lazy(Mailer);
+
+      expect(created).toBe(0);
+      expect(mailer.send("alice")).toBe("sent to alice");
+      expect(mailer.send("bob")).toBe("sent to bob");
+      expect(created).toBe(1);
+    });
+
+    it("should resolve through box.get", () => {
+      const box = new Box();
+
+      class Database {
+        value = Math.random();
+      }
+
+      const db = box.lazy(Database);
+
+      expect(db.value).toBe(box.get(Database).value);
+      expect(db).toBeInstanceOf(Database);
+    });
+
+    it("should allow two services to reference each other", () => {
+      const box = new Box();
+
+      class UserService {
+        constructor(public auth: AuthService) {}
+
+        static init(box: Box): UserService {
+          return new UserService(box.lazy(AuthService));
+        }
+
+        name() {
+          return "user";
+        }
+      }
+
+      class AuthService {
+        constructor(public users: UserService) {}
+
+        static init(box: Box): AuthService {
+          return new AuthService(box.get(UserService));
+        }
+
+        name() {
+          return "auth";
+        }
+      }
+
+      const users = box.get(UserService);
+      const auth = box.get(AuthService);
+
+      expect(users.auth.name()).toBe("auth");
+      expect(users.auth.users).toBe(users);
+      expect(auth.users).toBe(users);
+    });
+
+    it("should bind methods using private fields to the instance", () => {
+      const box = new Box();
+
+      class Counter {
+        #count = 0;
+
+        increment() {
+          return ++this.#count;
+        }
+      }
+
+      const counter = box.lazy(Counter);
+      counter.increment();
+
+      expect(counter.increment()).toBe(2);
+    });
+
+    it("should forward property writes, keys and calls", () => {
+      const box = new Box();
+
+      const ConfigFactory = factory(() => ({ port: 3000 }));
+      const HandlerFactory = factory(() => (name: string) => `hi ${name}`);
+
+      const config = box.lazy(ConfigFactory);
+      config.port = 4000;
+
+      expect(box.get(ConfigFactory).port).toBe(4000);
+      expect(Object.keys(config)).toEqual(["port"]);
+      expect("port" in config).toBe(true);
+      expect(box.lazy(HandlerFactory)("alice")).toBe("hi alice");
+    });
+
+    it("should propagate resolution errors on first access", () => {
+      const box = new Box();
+
+      class Database {
+        constructor() {
+          throw new Error("connection refused");
+        }
+
+        query() {}
+      }
+
+      const db = box.lazy(Database);
+
+      expect(() => db.query()).toThrow(ResolutionError);
+    });
+
+    it("should accept lazy arguments in box.for().get()", () => {
+      const box = new Box();
+      let created = 0;
+
+      class Database {
+        constructor() {
+          created++;
+        }
+
+        query() {
+          return "result";
+        }
+      }
+
+      class Repository {
+        constructor(public db: Database) {}
+      }
+
+      const repo = box.for(Repository).get(lazy(Database));
+
+      expect(created).toBe(0);
+      expect(repo.db.query()).toBe("result");
+      expect(box.get(Database).query()).toBe("result");
+      expect(created).toBe(1);
+    });
+
+    it("should accept lazy arguments in box.for().new()", () => {
+      const box = new Box();
+
+      class Database {
+        id = Math.random();
+      }
+
+      class Repository {
+        constructor(public db: Database, public cache: Database) {}
+      }
+
+      const repo = box.for(Repository).new(lazy(Database), Database);
+
+      expect(repo.db.id).toBe(repo.db.id);
+      expect(repo.db.id).not.toBe(box.get(Database).id);
+      expect(repo.db.id).not.toBe(repo.cache.id);
+    });
+  });
+
+  describe("multi", () => {
+    it("should resolve all contributed constructors in registration order", () => {
+      const box = new Box();
+
+      interface HealthCheck {
+        name: string;
+      }
+
+      const HealthChecks = multi<HealthCheck>("HealthChecks");
+
+      class DatabaseCheck implements HealthCheck {
+        name = "database";
+      }
+
+      const CacheCheck = factory((): HealthCheck => ({ name: "cache" }));
+
+      HealthChecks.add(DatabaseCheck);
+      HealthChecks.add(CacheCheck);
+
+      const checks = box.getAll(HealthChecks);
+
+      expect(checks.map((check) => check.name)).toEqual(["database", "cache"]);
+      expect(checks[0]).toBeInstanceOf(DatabaseCheck);
+    });
+
+    it("should return an empty list without contributions", () => {
+      const box = new Box();
+
+      const Routes = multi<{ path: string }>();
+
+      expect(box.getAll(Routes)).toEqual([]);
+    });
+
+    it("should respect caching rules of each constructor", () => {
+      const box = new Box();
+
+      class Singleton {
+        id = Math.random();
+      }
+
+      class Transient {
+        static lifetime = "transient" as const;
+        id = Math.random();
+      }
+
+      const Items = multi<{ id: number }>().add(Singleton, Transient);
+
+      const [singleton1, transient1] = box.getAll(Items);
+      const [singleton2, transient2] = box.getAll(Items);
+
+      expect(singleton1).toBe(singleton2);
+      expect(singleton1).toBe(box.get(Singleton));
+      expect(transient1).not.toBe(transient2);
+    });
+
+    it("should include constructors added after the first resolution", () => {
+      const box = new Box();
+
+      const Subscribers = multi<string>();
+      Subscribers.add(constant("audit"));
+
+      expect(box.getAll(Subscribers)).toEqual(["audit"]);
+
+      Subscribers.add(constant("email"));
+
+      expect(box.getAll(Subscribers)).toEqual(["audit", "email"]);
+    });
+
+    it("should be usable as a dependency", () => {
+      const box = new Box();
+
+      const Routes = multi<string>().add(
+        constant("/users"),
+        constant("/posts")
+      );
+
+      class Router {
+        constructor(public routes: string[]) {}
+      }
+
+      class App {
+        constructor(public routes: string[]) {}
+
+        static init(box: Box) {
+          return new App(box.get(Routes));
+        }
+      }
+
+      expect(box.for(Router).get(Routes).routes).toEqual(["/users", "/posts"]);
+      expect(box.get(App).routes).toEqual(["/users", "/posts"]);
+    });
+
+    it("should resolve scoped contributions from child boxes", () => {
+      const box = new Box();
+
+      class RequestLogger {
+        static lifetime = "scoped" as const;
+      }
+
+      const Middlewares = multi<object>().add(RequestLogger);
+
+      const child1 = box.child();
+      const child2 = box.child();
+
+      expect(child1.getAll(Middlewares)[0]).toBe(child1.get(RequestLogger));
+      expect(child1.getAll(Middlewares)[0]).not.toBe(
+        child2.getAll(Middlewares)[0]
+      );
+    });
+  });
+
+  describe("token", () => {
+    interface Logger {
+      log(message: string): string;
+    }
+
+    class ConsoleLogger implements Logger {
+      log(message: string) {
+        return `[console] ${message}`;
+      }
+    }
+
+    class JsonLogger implements Logger {
+      log(message: string) {
+        return JSON.stringify({ message });
+      }
+    }
+
+    it("should resolve the bound constructor", () => {
+      const box = new Box();
+      const LoggerToken = token<Logger>("Logger");
+
+      box.bind(LoggerToken, ConsoleLogger);
+
+      const logger = box.get(LoggerToken);
+
+      expect(logger).toBeInstanceOf(ConsoleLogger);
+      expect(logger).toBe(box.get(LoggerToken));
+      expect(logger).toBe(box.get(ConsoleLogger));
+    });
+
+    it("should bind factories and values", () => {
+      const box = new Box();
+      const LoggerToken = token<Logger>("Logger");
+      const ApiUrl = token<string>("ApiUrl");
+
+      box.bind(
+        LoggerToken,
+        factory(() => new JsonLogger())
+      );
+      box.bind(ApiUrl, "https://api.example.com");
+
+      expect(box.get(LoggerToken).log("hi")).toBe('{"message":"hi"}');
+      expect(box.get(ApiUrl)).toBe("https://api.example.com");
+    });
+
+    it("should bind arrow functions as values", () => {
+      const box = new Box();
+      const Format = token<(message: string) => string>("Format");
+
+      box.bind(Format, (message) => message + "!");
+
+      expect(box.get(Format)("hi")).toBe("hi!");
+    });
+
+    it("should create new instances of the bound constructor with new", () => {
+      const box = new Box();
+      const LoggerToken = token<Logger>("Logger");
+
+      box.bind(LoggerToken, ConsoleLogger);
+
+      const logger = box.new(LoggerToken);
+
+      expect(logger).toBeInstanceOf(ConsoleLogger);
+      expect(logger).not.toBe(box.get(LoggerToken));
+    });
+
+    it("should throw UnboundTokenError naming the token", () => {
+      const box = new Box();
+      const LoggerToken = token<Logger>("Logger");
+
+      class UserService {
+        constructor(public logger: Logger) {}
+
+        static init(box: Box) {
+          return new UserService(box.get(LoggerToken));
+        }
+      }
+
+      expect(() => box.get(LoggerToken)).toThrow(UnboundTokenError);
+      expect(() => box.get(LoggerToken)).toThrow("No binding for token Logger");
+
+      let error: unknown;
+      try {
+        box.get(UserService);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(UnboundTokenError);
+      expect((error as UnboundTokenError).path).toEqual([
+        UserService,
+        LoggerToken,
+      ]);
+      expect((error as Error).message).toBe(
+        "No binding for token Logger while resolving UserService -> Logger"
+      );
+    });
+
+    it("should inherit bindings in child boxes and allow shadowing", () => {
+      const box = new Box();
+      const LoggerToken = token<Logger>("Logger");
+
+      box.bind(LoggerToken, ConsoleLogger);
+
+      const child = box.child();
+      const shadowed = box.child();
+      shadowed.bind(LoggerToken, JsonLogger);
+
+      expect(child.get(LoggerToken)).toBe(box.get(LoggerToken));
+      expect(shadowed.get(LoggerToken)).toBeInstanceOf(JsonLogger);
+      expect(box.get(LoggerToken)).toBeInstanceOf(ConsoleLogger);
+    });
+
+    it("should be usable with box.for and mock", () => {
+      const box = new Box();
+      const LoggerToken = token<Logger>("Logger");
+
+      class UserService {
+        constructor(public logger: Logger) {}
+      }
+
+      const mockLogger = { log: () => "mocked" };
+      Box.mock(box, LoggerToken, mockLogger);
+
+      expect(box.for(UserService).get(LoggerToken).logger).toBe(mockLogger);
+    });
+
+    it("should record the binding in the graph", () => {
+      const box = new Box();
+      const LoggerToken = token<Logger>("Logger");
+
+      box.bind(LoggerToken, ConsoleLogger);
+      box.get(LoggerToken);
+
+      expect(box.graph().edges).toEqual([
+        { from: "Logger", to: "ConsoleLogger", cached: true },
+      ]);
+    });
+  });
+
+  describe("invalidate", () => {
+    class Credentials {
+      id = Math.random();
+    }
+
+    class Client {
+      constructor(public credentials: Credentials) {}
+      static init(box: Box) {
+        return new Client(box.get(Credentials));
+      }
+    }
+
+    class Service {
+      constructor(public client: Client) {}
+      static init(box: Box) {
+        return new Service(box.get(Client));
+      }
+    }
+
+    class Unrelated {
+      id = Math.random();
+    }
+
+    it("should evict the constructor and its dependents", () => {
+      const box = new Box();
+      const service = box.get(Service);
+      const unrelated = box.get(Unrelated);
+
+      const evicted = box.invalidate(Credentials);
+
+      expect(evicted).toEqual([Credentials, Client, Service]);
+      const next = box.get(Service);
+      expect(next).not.toBe(service);
+      expect(next.client.credentials).not.toBe(service.client.credentials);
+      expect(box.get(Unrelated)).toBe(unrelated);
+    });
+
+    it("should only evict dependents of the constructor", () => {
+      const box = new Box();
+      const service = box.get(Service);
+
+      box.invalidate(Client);
+
+      const next = box.get(Service);
+      expect(next).not.toBe(service);
+      expect(next.client).not.toBe(service.client);
+      expect(next.client.credentials).toBe(service.client.credentials);
+    });
+
+    it("should evict async dependents resolved after an await", async () => {
+      const box = new Box();
+
+      const Other = asyncFactory(async () => ({}));
+      const Connection = asyncFactory(async (box) => {
+        await box.getAsync(Other);
+        return { credentials: box.get(Credentials) };
+      });
+
+      const connection = await box.getAsync(Connection);
+
+      expect(box.invalidate(Credentials)).toEqual([Credentials, Connection]);
+      const next = await box.getAsync(Connection);
+      expect(next.credentials).not.toBe(connection.credentials);
+    });
+
+    it("should evict scoped dependents when invalidated in the child box", () => {
+      const box = new Box();
+      const child = box.child();
+
+      class Session {
+        static lifetime = "scoped" as const;
+        constructor(public credentials: Credentials) {}
+        static init(box: Box) {
+          return new Session(box.get(Credentials));
+        }
+      }
+
+      const session = child.get(Session);
+
+      expect(box.invalidate(Credentials)).toEqual([Credentials]);
+      expect(child.get(Session)).toBe(session);
+
+      expect(child.invalidate(Credentials)).toEqual([Session]);
+      expect(child.get(Session).credentials).not.toBe(session.credentials);
+    });
+
+    it("should evict dependents through transient constructors", () => {
+      const Connection = factory((box) => box.get(Credentials), {
+        lifetime: "transient",
+      });
+      const Pool = factory((box) => ({ connection: box.get(Connection) }));
+
+      const box = new Box();
+      const pool = box.get(Pool);
+      box.invalidate(Credentials);
+
+      expect(box.get(Pool)).not.toBe(pool);
+    });
+
+    it("should evict the binding of a token", () => {
+      const CredentialsToken = token<Credentials>("Credentials");
+      const Consumer = factory((box) => box.get(CredentialsToken));
+
+      const box = new Box();
+      box.bind(CredentialsToken, Credentials);
+      const credentials = box.get(Consumer);
+
+      expect(box.invalidate(CredentialsToken)).toEqual([Consumer, Credentials]);
+      expect(box.get(Consumer)).not.toBe(credentials);
+    });
+
+    it("should not dispose evicted instances by default", () => {
+      const dispose = vi.fn();
+      const Resource = factory(() => ({}), { dispose });
+
+      const box = new Box();
+      box.get(Resource);
+      box.invalidate(Resource);
+
+      expect(dispose).not.toHaveBeenCalled();
+      box.dispose();
+      expect(dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it("should dispose evicted instances in reverse creation order", () => {
+      const order: string[] = [];
+      const Resource = factory(() => "resource", {
+        dispose: (value) => void order.push(value),
+      });
+      const Consumer = factory((box) => `${box.get(Resource)} consumer`, {
+        dispose: (value) => void order.push(value),
+      });
+      const Other = factory(() => "other", {
+        dispose: (value) => void order.push(value),
+      });
+
+      const box = new Box();
+      box.get(Consumer);
+      box.get(Other);
+      box.invalidate(Resource, { dispose: true });
+
+      expect(order).toEqual(["resource consumer", "resource"]);
+      box.dispose();
+      expect(order).toEqual(["resource consumer", "resource", "other"]);
+    });
+
+    it("should dispose evicted instances asynchronously", async () => {
+      const dispose = vi.fn(async () => {});
+      const Resource = factory(() => ({}), { dispose });
+
+      const box = new Box();
+      box.get(Resource);
+
+      expect(() => box.invalidate(Resource, { dispose: true })).toThrow(
+        "Failed to dispose invalidated"
+      );
+
+      box.get(Resource);
+      await box.invalidateAsync(Resource, { dispose: true });
+      expect(dispose).toHaveBeenCalledTimes(2);
+    });
+
+    it("should clear every cached instance", () => {
+      const dispose = vi.fn();
+      const Resource = factory(() => ({}), { dispose });
+
+      const box = new Box();
+      const service = box.get(Service);
+      const resource = box.get(Resource);
+      box.clear();
+
+      expect(box.get(Service)).not.toBe(service);
+      expect(box.get(Resource)).not.toBe(resource);
+      expect(dispose).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("replace", () => {
+    class Greeter {
+      greet() {
+        return "hello";
+      }
+    }
+
+    class App {
+      constructor(public greeter: Greeter) {}
+      static init(box: Box) {
+        return new App(box.get(Greeter));
+      }
+    }
+
+    it("should resolve the replacement for the old constructor", () => {
+      class NextGreeter {
+        greet() {
+          return "hi";
+        }
+      }
+
+      const box = new Box();
+      const app = box.get(App);
+
+      expect(box.replace(Greeter, NextGreeter)).toEqual([Greeter, App]);
+      expect(app.greeter.greet()).toBe("hello");
+      expect(box.get(App)).not.toBe(app);
+      expect(box.get(App).greeter.greet()).toBe("hi");
+      expect(box.get(Greeter)).toBe(box.get(NextGreeter));
+    });
+
+    it("should follow repeated replacements", () => {
+      class Second extends Greeter {}
+      class Third extends Greeter {}
+
+      const box = new Box();
+      const app = box.get(App);
+      box.replace(Greeter, Second);
+      box.get(App);
+      box.replace(Second, Third);
+
+      expect(box.get(App)).not.toBe(app);
+      expect(box.get(App).greeter).toBeInstanceOf(Third);
+    });
+
+    it("should dispose replaced instances when asked", () => {
+      const dispose = vi.fn();
+      const Timer = factory(() => "v1", { dispose });
+      const NextTimer = factory(() => "v2", { dispose });
+
+      const box = new Box();
+      box.get(Timer);
+      box.replace(Timer, NextTimer, { dispose: true });
+
+      expect(dispose).toHaveBeenCalledWith("v1");
+      expect(box.get(Timer)).toBe("v2");
+    });
+
+    it("should keep module ownership for the replacement", () => {
+      class Secret {
+        value = "secret";
+      }
+      class Reader {
+        static init(box: Box) {
+          return box.get(Secret).value;
+        }
+      }
+      class NextReader {
+        static init(box: Box) {
+          return box.get(Secret).value.toUpperCase();
+        }
+      }
+
+      const SecretModule = defineModule({
+        name: "SecretModule",
+        providers: [Secret, Reader],
+        exports: [Reader],
+      });
+
+      const box = new Box();
+      box.load(SecretModule);
+      box.replace(Reader, NextReader);
+
+      expect(box.get(Reader)).toBe("SECRET");
+    });
+  });
+
+  describe("hot", () => {
+    function hotContext() {
+      let callback: ((module: Record<string, unknown>) => void) | undefined;
+      return {
+        accept: vi.fn((cb: (module: Record<string, unknown>) => void) => {
+          callback = cb;
+        }),
+        update: (module: Record<string, unknown>) => callback?.(module),
+      };
+    }
+
+    it("should replace providers in boxes accepting hot updates", () => {
+      class Service {
+        version = 1;
+      }
+      class NextService {
+        version = 2;
+      }
+
+      const box = new Box();
+      const other = new Box();
+      const stop = box.acceptHot();
+      box.get(Service);
+      other.get(Service);
+
+      const context = hotContext();
+      hot(context, { Service });
+      context.update({ Service: NextService });
+
+      expect(box.get(Service).version).toBe(2);
+      expect(other.get(Service).version).toBe(1);
+      stop();
+    });
+
+    it("should stop replacing after the box unsubscribes", () => {
+      class Service {
+        version = 1;
+      }
+      class NextService {
+        version = 2;
+      }
+
+      const box = new Box();
+      box.acceptHot()();
+
+      const context = hotContext();
+      hot(context, { Service });
+      context.update({ Service: NextService });
+
+      expect(box.get(Service).version).toBe(1);
+    });
+
+    it("should do nothing without a hot context", () => {
+      expect(() => hot(undefined, {})).not.toThrow();
+    });
+  });
+
+  describe("run", () => {
+    class RequestId {
+      value = Math.random();
+    }
+
+    it("should resolve from the current box with use", () => {
+      const box = new Box();
+
+      const value = box.run(() => use(RequestId));
+
+      expect(value).toBe(box.get(RequestId));
+    });
+
+    it("should keep the box across async continuations", async () => {
+      const box = new Box();
+
+      const value = await box.run(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return use(RequestId);
+      });
+
+      expect(value).toBe(box.get(RequestId));
+    });
+
+    it("should isolate concurrent runs", async () => {
+      const Scoped = factory(() => new RequestId(), { lifetime: "scoped" });
+      const handle = async () => {
+        const before = useBox();
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        expect(useBox()).toBe(before);
+        return use(Scoped);
+      };
+
+      const root = new Box();
+      const first = root.child();
+      const second = root.child();
+      const [a, b] = await Promise.all([first.run(handle), second.run(handle)]);
+
+      expect(a).toBe(first.get(Scoped));
+      expect(b).toBe(second.get(Scoped));
+      expect(a).not.toBe(b);
+    });
+
+    it("should use the innermost box in nested runs", () => {
+      const outer = new Box();
+      const inner = new Box();
+
+      outer.run(() => {
+        expect(useBox()).toBe(outer);
+        inner.run(() => expect(useBox()).toBe(inner));
+        expect(useBox()).toBe(outer);
+      });
+    });
+
+    it("should throw outside of box.run", () => {
+      expect(() => use(RequestId)).toThrow(
+        "Cannot use RequestId outside of box.run()"
+      );
+      expect(() => useBox()).toThrow("Cannot use box outside of box.run()");
+    });
+  });
+
+  describe("serialize", () => {
+    class UserStore {
+      constructor(public users: string[]) {}
+
+      static fetch = vi.fn(() => ["Alice", "Bob"]);
+
+      static init() {
+        return new UserStore(UserStore.fetch());
+      }
+
+      static serializable: Serializable<UserStore> = {
+        key: "users",
+        serialize: (store) => store.users,
+        revive: (users: string[]) => new UserStore(users),
+      };
+    }
+
+    afterEach(() => UserStore.fetch.mockClear());
+
+    it("should serialize cached values that opt in", () => {
+      const Settings = factory(() => ({ theme: "dark" }), {
+        serializable: { key: "settings" },
+      });
+      const Unserialized = factory(() => ({ secret: "token" }));
+
+      const server = new Box();
+      server.get(UserStore);
+      server.get(Settings);
+      server.get(Unserialized);
+
+      const state = server.serialize();
+
+      expect(state).toEqual({
+        users: ["Alice", "Bob"],
+        settings: { theme: "dark" },
+      });
+      expect(JSON.parse(JSON.stringify(state))).toEqual(state);
+    });
+
+    it("should revive hydrated values instead of creating them", () => {
+      const server = new Box();
+      server.get(UserStore);
+      const state = JSON.parse(JSON.stringify(server.serialize()));
+
+      const client = new Box();
+      client.hydrate(state);
+      const store = client.get(UserStore);
+
+      expect(store).toBeInstanceOf(UserStore);
+      expect(store.users).toEqual(["Alice", "Bob"]);
+      expect(client.get(UserStore)).toBe(store);
+      expect(UserStore.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should use hydrated state only once", () => {
+      const client = new Box();
+      client.hydrate({ users: ["Carol"] });
+
+      expect(client.get(UserStore).users).toEqual(["Carol"]);
+      client.clear();
+      expect(client.get(UserStore).users).toEqual(["Alice", "Bob"]);
+    });
+
+    it("should revive values of async constructors", async () => {
+      const fetch = vi.fn(async () => ({ count: 1 }));
+      const Counter = asyncFactory(fetch, {
+        serializable: { key: "counter" },
+      });
+
+      const client = new Box();
+      client.hydrate({ counter: { count: 5 } });
+
+      expect(await client.getAsync(Counter)).toEqual({ count: 5 });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("should pass the box to revive", () => {
+      const Api = factory(() => ({ url: "/api" }), { name: "Api" });
+      const Posts = factory(
+        () => ({ api: { url: "" }, posts: [] as string[] }),
+        {
+          name: "Posts",
+          serializable: {
+            key: "posts",
+            serialize: (value) => value.posts,
+            revive: (posts: string[], box) => ({ api: box.get(Api), posts }),
+          },
+        }
+      );
+
+      const client = new Box();
+      client.hydrate({ posts: ["Hello"] });
+
+      expect(client.get(Posts)).toEqual({
+        api: { url: "/api" },
+        posts: ["Hello"],
+      });
+      expect(client.graph().edges).toContainEqual({
+        from: "Posts",
+        to: "Api",
+        cached: true,
+      });
+    });
+
+    it("should include values cached in parent boxes", () => {
+      const Session = factory(() => ({ id: 1 }), {
+        lifetime: "scoped",
+        serializable: { key: "session" },
+      });
+
+      const app = new Box();
+      app.get(UserStore);
+      const request = app.child();
+      request.get(Session);
+
+      expect(request.serialize()).toEqual({
+        users: ["Alice", "Bob"],
+        session: { id: 1 },
+      });
+    });
+
+    it("should reject constructors sharing a key", () => {
+      const First = factory(() => 1, { serializable: { key: "value" } });
+      const Second = factory(() => 2, {
+        name: "Second",
+        serializable: { key: "value" },
+      });
+
+      const box = new Box();
+      box.get(First);
+      box.get(Second);
+
+      expect(() => box.serialize()).toThrow(
+        "Serialization key value is used by <anonymous> and Second"
+      );
+    });
+  });
+
+  describe("freeze", () => {
+    class Config {
+      value = Math.random();
+    }
+
+    const ConfigToken = token<Config>("Config");
+    const ConfigFactory = factory(() => new Config());
+
+    it("should reject changes to bindings and the cache", () => {
+      const box = new Box();
+      box.get(Config);
+      const snapshot = box.snapshot();
+      box.freeze();
+
+      expect(() => box.bind(ConfigToken, Config)).toThrow(
+        "Cannot bind, the box is frozen"
+      );
+      expect(() => box.override(Config, new Config())).toThrow(
+        "Cannot override, the box is frozen"
+      );
+      expect(() => Box.mock(box, Config, new Config())).toThrow(
+        "Cannot mock, the box is frozen"
+      );
+      expect(() => box.invalidate(Config)).toThrow(
+        "Cannot invalidate, the box is frozen"
+      );
+      expect(() => box.clear()).toThrow("Cannot clear, the box is frozen");
+      expect(() => box.restore(snapshot)).toThrow(
+        "Cannot restore, the box is frozen"
+      );
+      expect(() => box.hydrate({})).toThrow(
+        "Cannot hydrate, the box is frozen"
+      );
+      expect(() => box.intercept((_, value) => value)).toThrow(
+        "Cannot intercept, the box is frozen"
+      );
+      expect(() => box.load(defineModule({ name: "Module" }))).toThrow(
+        "Cannot load, the box is frozen"
+      );
+    });
+
+    it("should reject restoring overrides made before freezing", () => {
+      const box = new Box();
+      const handle = box.override(Config, new Config());
+      box.freeze();
+
+      expect(() => handle.restore()).toThrow(
+        "Cannot restore, the box is frozen"
+      );
+    });
+
+    it("should keep resolving and creating instances", () => {
+      const box = new Box();
+      const config = box.get(Config);
+      box.freeze();
+
+      expect(box.get(Config)).toBe(config);
+      expect(box.get(ConfigFactory)).toBeInstanceOf(Config);
+    });
+
+    it("should reject new singletons when asked", async () => {
+      class Service {
+        static init(box: Box) {
+          return box.get(Config);
+        }
+      }
+      const Transient = factory(() => new Config(), { lifetime: "transient" });
+      const Async = asyncFactory(async () => new Config());
+
+      const box = new Box();
+      const config = box.get(Config);
+      box.freeze({ singletons: false });
+
+      expect(box.get(Config)).toBe(config);
+      expect(box.get(Transient)).toBeInstanceOf(Config);
+      expect(() => box.get(ConfigFactory)).toThrow(ResolutionError);
+      await expect(box.getAsync(Async)).rejects.toThrow(
+        "Cannot create <anonymous>: the box is frozen"
+      );
+
+      const box2 = new Box();
+      box2.freeze({ singletons: false });
+      expect(() => box2.get(Service)).toThrow(
+        "Cannot create Service: the box is frozen"
+      );
+    });
+
+    it("should let child boxes of a frozen box bind their own tokens", () => {
+      const box = new Box();
+      box.freeze();
+      const child = box.child();
+
+      child.bind(ConfigToken, Config);
+
+      expect(child.get(ConfigToken)).toBe(box.get(Config));
+    });
+  });
+
+  describe("readonly", () => {
+    class Service {
+      value = Math.random();
+    }
+
+    it("should resolve through the box", async () => {
+      const box = new Box();
+      const view = box.readonly();
+
+      expect(view.get(Service)).toBe(box.get(Service));
+      expect(view.new(Service)).not.toBe(box.get(Service));
+      expect(await view.getAsync(Service)).toBe(box.get(Service));
+      expect(view.resolve({ service: Service }).service).toBe(box.get(Service));
+    });
+
+    it("should not expose anything but resolution", () => {
+      const view = new Box().readonly();
+
+      expect(view).not.toBeInstanceOf(Box);
+      expect("bind" in view).toBe(false);
+      expect("override" in view).toBe(false);
+      expect(Object.keys(view).sort()).toEqual([
+        "for",
+        "get",
+        "getAll",
+        "getAsync",
+        "lazy",
+        "new",
+        "newAsync",
+        "resolve",
+      ]);
+    });
+
+    it("should pass read-only boxes to init", async () => {
+      const box = new Box();
+      const view = box.readonly();
+      const Config = token<string>("Config");
+
+      const Plugin = factory((box) => box);
+      const Nested = factory((box) => box.get(factory((inner) => inner)));
+      const AsyncPlugin = asyncFactory(async (box) => {
+        await null;
+        return box;
+      });
+      const LazyPlugin = factory((box) => ({ box }));
+
+      const boxes = [
+        view.get(Plugin),
+        view.new(Nested),
+        await view.getAsync(AsyncPlugin),
+        view.lazy(LazyPlugin).box,
+        view.get(Plugin).child(),
+      ];
+
+      for (const inner of boxes) {
+        expect(inner).not.toBe(box);
+        expect(inner.get(Service)).toBe(box.get(Service));
+        expect(() => inner.bind(Config, "value")).toThrow(
+          "Cannot bind, the box is read-only"
+        );
+        expect(() => inner.override(Service, new Service())).toThrow(
+          "Cannot override, the box is read-only"
+        );
+        expect(() => Box.mock(inner, Service, new Service())).toThrow(
+          "Cannot mock, the box is read-only"
+        );
+        expect(() => inner.dispose()).toThrow(
+          "Cannot dispose, the box is read-only"
+        );
+        expect(() => inner.freeze()).toThrow(
+          "Cannot freeze, the box is read-only"
+        );
+      }
+    });
+
+    it("should pass the box itself to init outside of the view", () => {
+      const box = new Box();
+      box.readonly().get(Service);
+
+      const Plugin = factory((box) => box);
+      expect(box.get(Plugin)).toBe(box);
+      expect(() => box.bind(token("Config"), "value")).not.toThrow();
+    });
+  });
+
+  describe("override", () => {
+    it("should resolve the replacement value until restored", () => {
+      const box = new Box();
+
+      class Mailer {
+        send() {
+          return "sent";
+        }
+      }
+
+      const mock = { send: () => "mocked" };
+      const handle = box.override(Mailer, mock);
+
+      expect(box.get(Mailer)).toBe(mock);
+      expect(box.new(Mailer)).toBe(mock);
+
+      handle.restore();
+
+      expect(box.get(Mailer)).toBeInstanceOf(Mailer);
+    });
+
+    it("should accept replacement constructors", () => {
+      const box = new Box();
+
+      class Mailer {
+        send() {
+          return "sent";
+        }
+      }
+
+      class FakeMailer extends Mailer {
+        send() {
+          return "fake";
+        }
+      }
+
+      box.override(Mailer, FakeMailer);
+
+      expect(box.get(Mailer).send()).toBe("fake");
+      expect(box.get(Mailer)).toBe(box.get(FakeMailer));
+      expect(box.new(Mailer)).not.toBe(box.get(Mailer));
+    });
+
+    it("should override with arrow functions as values", () => {
+      const box = new Box();
+
+      const Format = factory(() => (message: string) => message);
+      box.override(Format, (message) => message + "!");
+
+      expect(box.get(Format)("hi")).toBe("hi!");
+    });
+
+    it("should restore the original cached instance", () => {
+      const box = new Box();
+
+      class Mailer {}
+
+      const original = box.get(Mailer);
+      const handle = box.override(Mailer, { mocked: true });
+
+      expect(box.get(Mailer)).toEqual({ mocked: true });
+
+      handle.restore();
+
+      expect(box.get(Mailer)).toBe(original);
+    });
+
+    it("should evict dependents resolved during the override on restore", () => {
+      const box = new Box();
+
+      const Db = factory(() => "real", { name: "Db" });
+      class Service {
+        constructor(public db: string) {}
+
+        static init(box: Box) {
+          return new Service(box.get(Db));
+        }
+      }
+      class Logger {}
+
+      const logger = box.get(Logger);
+      const handle = box.override(Db, "mock");
+      expect(box.get(Service).db).toBe("mock");
+
+      handle.restore();
+
+      expect(box.get(Db)).toBe("real");
+      expect(box.get(Service).db).toBe("real");
+      expect(box.get(Logger)).toBe(logger);
+    });
+
+    it("should throw if the original was captured by dependents", () => {
+      const box = new Box();
+
+      class Mailer {}
+
+      class UserService {
+        constructor(public mailer: Mailer) {}
+
+        static init(box: Box) {
+          return new UserService(box.get(Mailer));
+        }
+      }
+
+      box.get(UserService);
+
+      expect(() => box.override(Mailer, {})).toThrow(
+        "Cannot override Mailer, already resolved by UserService"
+      );
+    });
+
+    it("should restore with using declarations and nested overrides", () => {
+      const box = new Box();
+      const ApiUrl = constant("https://api.example.com");
+
+      const outer = box.override(ApiUrl, "http://localhost:1");
+      const inner = box.override(ApiUrl, "http://localhost:2");
+
+      expect(box.get(ApiUrl)).toBe("http://localhost:2");
+
+      inner[Symbol.dispose]();
+
+      expect(box.get(ApiUrl)).toBe("http://localhost:1");
+
+      outer.restore();
+      outer.restore();
+
+      expect(box.get(ApiUrl)).toBe("https://api.example.com");
+    });
+
+    it("should override bound tokens and restore the binding", () => {
+      const box = new Box();
+      const Greeting = token<string>("Greeting");
+
+      box.bind(Greeting, "hello");
+      const handle = box.override(Greeting, "mocked");
+
+      expect(box.get(Greeting)).toBe("mocked");
+
+      handle.restore();
+
+      expect(box.get(Greeting)).toBe("hello");
+    });
+
+    it("should override async constructors", async () => {
+      const box = new Box();
+
+      const PoolFactory = asyncFactory(async () => ({ fake: false }));
+
+      box.override(PoolFactory, { fake: true });
+
+      expect(await box.getAsync(PoolFactory)).toEqual({ fake: true });
+      expect(await box.newAsync(PoolFactory)).toEqual({ fake: true });
+    });
+  });
+
+  describe("snapshot", () => {
+    it("should restore cache and overrides from a snapshot", () => {
+      const box = new Box();
+
+      class Database {}
+
+      const db = box.get(Database);
+      const snapshot = box.snapshot();
+
+      box.override(Database, { fake: true });
+
+      expect(box.get(Database)).toEqual({ fake: true });
+
+      box.restore(snapshot);
+
+      expect(box.get(Database)).toBe(db);
+    });
+
+    it("should drop instances created after the snapshot", () => {
+      const box = new Box();
+
+      class Mailer {
+        id = Math.random();
+      }
+
+      const snapshot = box.snapshot();
+      const mailer = box.get(Mailer);
+
+      box.restore(snapshot);
+
+      expect(box.get(Mailer)).not.toBe(mailer);
+    });
+
+    it("should reset a shared box between cases", () => {
+      const box = new Box();
+      const disposed: string[] = [];
+
+      class Database {
+        [Symbol.dispose]() {
+          disposed.push("database");
+        }
+      }
+
+      class Session {
+        [Symbol.dispose]() {
+          disposed.push("session");
+        }
+      }
+
+      box.get(Database);
+      const snapshot = box.snapshot();
+
+      box.get(Session);
+      box.restore(snapshot);
+      box.dispose();
+
+      expect(disposed).toEqual(["database"]);
+    });
+
+    it("should reject snapshots of another box", () => {
+      const box = new Box();
+
+      expect(() => box.restore(new Box().snapshot())).toThrow(
+        "Cannot restore a snapshot taken from another box"
+      );
+    });
+  });
+
+  describe("hooks", () => {
+    it("should call hooks before resolve, after create and on cache hit", () => {
+      const box = new Box();
+      const events: string[] = [];
+
+      class Database {}
+
+      class Repository {
+        static init(box: Box) {
+          box.get(Database);
+          return new Repository();
+        }
+      }
+
+      box.hook({
+        beforeResolve: (constructor) =>
+          events.push(`resolve ${nameOf(constructor)}`),
+        afterCreate: (constructor) =>
+          events.push(`create ${nameOf(constructor)}`),
+        onCacheHit: (constructor) => events.push(`hit ${nameOf(constructor)}`),
+      });
+
+      box.get(Repository);
+      box.get(Repository);
+
+      expect(events).toEqual([
+        "resolve Repository",
+        "resolve Database",
+        "create Database",
+        "create Repository",
+        "resolve Repository",
+        "hit Repository",
+      ]);
+    });
+
+    it("should call onError for each failed constructor", () => {
+      const box = new Box();
+      const failed: string[] = [];
+
+      class Database {
+        constructor() {
+          throw new Error("connection refused");
+        }
+      }
+
+      class Repository {
+        static init(box: Box) {
+          box.get(Database);
+          return new Repository();
+        }
+      }
+
+      box.hook({
+        onError: (constructor, error) => {
+          expect(error).toBeInstanceOf(ResolutionError);
+          failed.push(nameOf(constructor));
+        },
+      });
+
+      expect(() => box.get(Repository)).toThrow(ResolutionError);
+      expect(failed).toEqual(["Database", "Repository"]);
+    });
+
+    it("should stop calling removed hooks", () => {
+      const box = new Box();
+      let calls = 0;
+
+      class Database {}
+
+      const remove = box.hook({ afterCreate: () => calls++ });
+      box.new(Database);
+      remove();
+      box.new(Database);
+
+      expect(calls).toBe(1);
+    });
+
+    it("should decorate values before they are cached", () => {
+      const box = new Box();
+      let created = 0;
+
+      class Repository {
+        find() {
+          return "found";
+        }
+      }
+
+      box.intercept((constructor, value) => {
+        if (constructor !== Repository) return value;
+        created++;
+        return { ...value, find: () => `traced ${value.find()}` };
+      });
+
+      const repo = box.get(Repository);
+
+      expect(repo.find()).toBe("traced found");
+      expect(box.get(Repository)).toBe(repo);
+      expect(box.new(Repository).find()).toBe("traced found");
+      expect(created).toBe(2);
+    });
+
+    it("should apply interceptors in registration order", () => {
+      const box = new Box();
+
+      const Greeting = factory(() => "hello");
+
+      box.intercept((constructor, value) =>
+        typeof value === "string" ? `${value} world` : value
+      );
+      box.intercept((constructor, value) =>
+        typeof value === "string" ? value.toUpperCase() : value
+      );
+
+      expect(box.get(Greeting)).toBe("HELLO WORLD");
+    });
+
+    it("should apply to async constructors and box.for", async () => {
+      const box = new Box();
+      const created: string[] = [];
+
+      const PoolFactory = asyncFactory(async () => ({}), {
+        name: "PoolFactory",
+      });
+
+      class Service {}
+
+      box.hook({
+        afterCreate: (constructor) => created.push(nameOf(constructor)),
+      });
+
+      await box.getAsync(PoolFactory);
+      box.for(Service).get();
+
+      expect(created).toEqual(["PoolFactory", "Service"]);
+    });
+
+    it("should inherit hooks and interceptors in child boxes", () => {
+      const box = new Box();
+      const resolved: string[] = [];
+
+      class RequestContext {
+        static lifetime = "scoped" as const;
+      }
+
+      box.hook({
+        beforeResolve: (constructor, box) => {
+          resolved.push(nameOf(constructor));
+        },
+      });
+      box.intercept((constructor, value) => Object.freeze(value));
+
+      const child = box.child();
+      const ctx = child.get(RequestContext);
+
+      expect(resolved).toEqual(["RequestContext"]);
+      expect(Object.isFrozen(ctx)).toBe(true);
+    });
+
+    it("should not apply child hooks to the parent box", () => {
+      const box = new Box();
+      let calls = 0;
+
+      class Database {}
+
+      box.child().hook({ beforeResolve: () => calls++ });
+      box.get(Database);
+
+      expect(calls).toBe(0);
+    });
+  });
+
+  describe("profile", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    function useClock() {
+      const clock = { now: 0 };
+      vi.spyOn(performance, "now").mockImplementation(() => clock.now);
+      return clock;
+    }
+
+    it("should measure inclusive and exclusive time of each constructor", () => {
+      const box = new Box();
+      const clock = useClock();
+
+      class Database {
+        constructor() {
+          clock.now += 30;
+        }
+      }
+
+      class Repository {
+        static init(box: Box) {
+          clock.now += 5;
+          box.get(Database);
+          clock.now += 10;
+          return new Repository();
+        }
+      }
+
+      const profile = box.profile();
+      box.get(Repository);
+      box.get(Database);
+
+      expect(profile.report()).toEqual({
+        entries: [
+          {
+            name: "Database",
+            creations: 1,
+            cacheHits: 1,
+            inclusive: 30,
+            exclusive: 30,
+          },
+          {
+            name: "Repository",
+            creations: 1,
+            cacheHits: 0,
+            inclusive: 45,
+            exclusive: 15,
+          },
+        ],
+        stacks: [
+          { path: ["Repository", "Database"], time: 30 },
+          { path: ["Repository"], time: 15 },
+        ],
+      });
+    });
+
+    it("should only record while profiling", () => {
+      const box = new Box();
+
+      class Database {}
+
+      class Cache {}
+
+      box.get(Database);
+      const profile = box.profile();
+      box.new(Cache);
+      profile.stop();
+      box.new(Cache);
+
+      expect(profile.report().entries.map((entry) => entry.name)).toEqual([
+        "Cache",
+      ]);
+      expect(profile.report().entries[0].creations).toBe(1);
+    });
+
+    it("should not profile bindings as creations", () => {
+      const box = new Box();
+
+      class Logger {}
+      const LoggerToken = token<Logger>("LoggerToken");
+      box.bind(LoggerToken, Logger);
+
+      class Service {
+        static init(box: Box) {
+          box.get(LoggerToken);
+          return new Service();
+        }
+      }
+
+      const profile = box.profile();
+      box.get(Service);
+      box.get(LoggerToken);
+      box.get(LoggerToken);
+
+      const report = profile.report();
+      expect(report.entries.map((entry) => entry.name).sort()).toEqual([
+        "Logger",
+        "Service",
+      ]);
+      expect(report.entries.find((e) => e.name === "Logger")).toMatchObject({
+        creations: 1,
+        cacheHits: 2,
+      });
+      expect(report.stacks.map((stack) => stack.path)).toEqual([
+        ["Service", "Logger"],
+        ["Service"],
+      ]);
+    });
+
+    it("should time async constructors until they settle", async () => {
+      const box = new Box();
+      const clock = useClock();
+
+      const ConfigFactory = asyncFactory(
+        async () => {
+          await Promise.resolve();
+          clock.now += 20;
+          return {};
+        },
+        { name: "ConfigFactory" }
+      );
+
+      const DatabaseFactory = asyncFactory(
+        async (box: Box) => {
+          await box.getAsync(ConfigFactory);
+          clock.now += 5;
+          return {};
+        },
+        { name: "DatabaseFactory" }
+      );
+
+      const profile = box.profile();
+      await box.getAsync(DatabaseFactory);
+
+      const entries = profile.report().entries;
+      expect(entries.find((e) => e.name === "DatabaseFactory")).toMatchObject({
+        inclusive: 25,
+        exclusive: 5,
+      });
+      expect(entries.find((e) => e.name === "ConfigFactory")).toMatchObject({
+        inclusive: 20,
+        exclusive: 20,
+      });
+    });
+
+    it("should profile child boxes", () => {
+      const box = new Box();
+
+      class RequestContext {
+        static lifetime = "scoped" as const;
+      }
+
+      const profile = box.profile();
+      box.child().get(RequestContext);
+      box.child().get(RequestContext);
+
+      expect(profile.report().entries).toMatchObject([
+        { name: "RequestContext", creations: 2, cacheHits: 0 },
+      ]);
+    });
+  });
+
+  describe("preload", () => {
+    it("should resolve and cache all roots up front", async () => {
+      const box = new Box();
+
+      class Database {}
+
+      const CacheFactory = asyncFactory(async () => ({ connected: true }));
+
+      const result = await box.preload([Database, CacheFactory]);
+
+      expect(result.ready).toBe(true);
+      expect(result.results.map((r) => r.status)).toEqual(["ready", "ready"]);
+      expect(box.get(Database)).toBe(box.get(Database));
+      expect(await box.getAsync(CacheFactory)).toEqual({ connected: true });
+    });
+
+    it("should resolve async roots concurrently", async () => {
+      const box = new Box();
+      const events: string[] = [];
+
+      const delay = (name: string) =>
+        asyncFactory(async () => {
+          events.push(`start ${name}`);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          events.push(`end ${name}`);
+          return name;
+        });
+
+      await box.preload([delay("a"), delay("b")]);
+
+      expect(events).toEqual(["start a", "start b", "end a", "end b"]);
+    });
+
+    it("should share dependencies between roots", async () => {
+      const box = new Box();
+      let connections = 0;
+
+      const PoolFactory = asyncFactory(async () => {
+        connections++;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return {};
+      });
+
+      const UsersFactory = asyncFactory(async (box: Box) => ({
+        pool: await box.getAsync(PoolFactory),
+      }));
+
+      const PostsFactory = asyncFactory(async (box: Box) => ({
+        pool: await box.getAsync(PoolFactory),
+      }));
+
+      await box.preload([UsersFactory, PostsFactory]);
+
+      expect(connections).toBe(1);
+    });
+
+    it("should report every failure together", async () => {
+      const box = new Box();
+
+      class Database {
+        constructor() {
+          throw new Error("missing DATABASE_URL");
+        }
+      }
+
+      class Logger {}
+
+      const SecretsFactory = asyncFactory(
+        async () => {
+          throw new Error("access denied");
+        },
+        { name: "SecretsFactory" }
+      );
+
+      const result = await box.preload([Database, Logger, SecretsFactory]);
+
+      expect(result.ready).toBe(false);
+      expect(
+        result.results.map(({ name, status }) => ({ name, status }))
+      ).toEqual([
+        { name: "Database", status: "failed" },
+        { name: "Logger", status: "ready" },
+        { name: "SecretsFactory", status: "failed" },
+      ]);
+
+      const [database, , secrets] = result.results;
+      expect(database.status === "failed" && database.error).toBeInstanceOf(
+        ResolutionError
+      );
+      expect(secrets.status === "failed" && secrets.error).toBeInstanceOf(
+        ResolutionError
+      );
+    });
+
+    it("should be ready with no roots", async () => {
+      const box = new Box();
+
+      expect(await box.preload([])).toEqual({ ready: true, results: [] });
+    });
+  });
+
+  describe("modules", () => {
+    class Connection {
+      value = Math.random();
+    }
+
+    class Database {
+      constructor(public connection: Connection) {}
+      static init(box: Box) {
+        return new Database(box.get(Connection));
+      }
+    }
+
+    const DatabaseModule = defineModule({
+      name: "DatabaseModule",
+      providers: [Connection, Database],
+      exports: [Database],
+    });
+
+    it("should resolve exported providers", () => {
+      const box = new Box();
+      box.load(DatabaseModule);
+
+      const database = box.get(Database);
+      expect(database.connection).toBe(box.get(Database).connection);
+    });
+
+    it("should reject providers that are not exported", () => {
+      const box = new Box();
+      box.load(DatabaseModule);
+
+      expect(() => box.get(Connection)).toThrow(ModuleAccessError);
+      expect(() => box.get(Connection)).toThrow(
+        "Cannot resolve Connection: it is not exported by module DatabaseModule"
+      );
+    });
+
+    it("should allow modules to use exports of their imports", () => {
+      class UserService {
+        constructor(public database: Database) {}
+        static init(box: Box) {
+          return new UserService(box.get(Database));
+        }
+      }
+
+      const UserModule = defineModule({
+        name: "UserModule",
+        imports: [DatabaseModule],
+        providers: [UserService],
+        exports: [UserService],
+      });
+
+      const box = new Box();
+      box.load(UserModule);
+
+      expect(box.get(UserService).database).toBe(box.get(Database));
+    });
+
+    it("should reject private providers of imported modules", () => {
+      class Leaky {
+        static init(box: Box) {
+          return box.get(Connection);
+        }
+      }
+
+      const LeakyModule = defineModule({
+        name: "LeakyModule",
+        imports: [DatabaseModule],
+        providers: [Leaky],
+        exports: [Leaky],
+      });
+
+      const box = new Box();
+      box.load(LeakyModule);
+
+      let error: unknown;
+      try {
+        box.get(Leaky);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(ModuleAccessError);
+      expect((error as ModuleAccessError).path).toEqual([Leaky, Connection]);
+    });
+
+    it("should reject exports of modules that are not imported", () => {
+      class Cache {
+        static init(box: Box) {
+          return box.get(Database);
+        }
+      }
+
+      const CacheModule = defineModule({
+        name: "CacheModule",
+        providers: [Cache],
+        exports: [Cache],
+      });
+
+      const box = new Box();
+      box.load(DatabaseModule, CacheModule);
+
+      expect(() => box.get(Cache)).toThrow(
+        "Cannot resolve Cache -> Database: module CacheModule does not import module DatabaseModule"
+      );
+    });
+
+    it("should keep module bindings private unless exported", () => {
+      interface Clock {
+        now(): number;
+      }
+      const ClockToken = token<Clock>("Clock");
+
+      class Scheduler {
+        constructor(public clock: Clock) {}
+        static init(box: Box) {
+          return new Scheduler(box.get(ClockToken));
+        }
+      }
+
+      const SchedulerModule = defineModule({
+        name: "SchedulerModule",
+        providers: [Scheduler],
+        bindings: [[ClockToken, constant({ now: () => 42 })]],
+        exports: [Scheduler],
+      });
+
+      const box = new Box();
+      box.load(SchedulerModule);
+
+      expect(box.get(Scheduler).clock.now()).toBe(42);
+      expect(() => box.get(ClockToken)).toThrow(ModuleAccessError);
+    });
+
+    it("should resolve binding targets as members of the module", () => {
+      interface Store {
+        connection: Connection;
+      }
+      const StoreToken = token<Store>("Store");
+
+      class SqlStore {
+        constructor(public connection: Connection) {}
+        static init(box: Box) {
+          return new SqlStore(box.get(Connection));
+        }
+      }
+
+      const StoreModule = defineModule({
+        name: "StoreModule",
+        providers: [Connection],
+        bindings: [[StoreToken, SqlStore]],
+        exports: [StoreToken],
+      });
+
+      const box = new Box();
+      box.load(StoreModule);
+
+      expect(box.get(StoreToken).connection).toBeInstanceOf(Connection);
+    });
+
+    it("should check access for async providers", async () => {
+      const Pool = asyncFactory(async () => ({ size: 10 }));
+      const Client = asyncFactory(
+        async (box) => (await box.getAsync(Pool)).size
+      );
+
+      const PoolModule = defineModule({
+        name: "PoolModule",
+        providers: [Pool, Client],
+        exports: [Client],
+      });
+
+      const box = new Box();
+      box.load(PoolModule);
+
+      expect(await box.getAsync(Client)).toBe(10);
+      await expect(box.getAsync(Pool)).rejects.toThrow(ModuleAccessError);
+    });
+
+    it("should load imported modules and ignore repeated loads", () => {
+      const UserModule = defineModule({
+        name: "UserModule",
+        imports: [DatabaseModule],
+      });
+
+      const box = new Box();
+      box.load(UserModule, DatabaseModule);
+      box.load(DatabaseModule);
+
+      expect(box.get(Database)).toBeInstanceOf(Database);
+    });
+
+    it("should reject providers claimed by two modules", () => {
+      const OtherModule = defineModule({
+        name: "OtherModule",
+        providers: [Connection],
+      });
+
+      const box = new Box();
+      box.load(DatabaseModule);
+
+      expect(() => box.load(OtherModule)).toThrow(
+        "Connection is provided by both module DatabaseModule and module OtherModule"
+      );
+    });
+
+    it("should reject exports that are not provided", () => {
+      expect(() =>
+        defineModule({ name: "EmptyModule", exports: [Database] })
+      ).toThrow(
+        "Module EmptyModule cannot export Database, it is not provided by the module"
+      );
+    });
+
+    it("should apply modules loaded by a parent to child boxes", () => {
+      const box = new Box();
+      box.load(DatabaseModule);
+      const child = box.child();
+
+      expect(child.get(Database)).toBe(box.get(Database));
+      expect(() => child.get(Connection)).toThrow(ModuleAccessError);
+    });
+
+    it("should leave providers outside modules unrestricted", () => {
+      const box = new Box();
+      box.load(DatabaseModule);
+
+      class Standalone {
+        static init(box: Box) {
+          return box.get(Database);
+        }
+      }
+
+      expect(box.get(Standalone)).toBe(box.get(Database));
+    });
   });
 
   describe("mock", () => {
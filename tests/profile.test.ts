@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  ProfileReport,
+  profileToFolded,
+  profileToJSON,
+  profileToTable,
+} from "../src";
+
+const report: ProfileReport = {
+  entries: [
+    {
+      name: "Database",
+      creations: 1,
+      cacheHits: 2,
+      inclusive: 30,
+      exclusive: 30,
+    },
+    {
+      name: "Repository",
+      creations: 1,
+      cacheHits: 0,
+      inclusive: 45.5,
+      exclusive: 15.5,
+    },
+  ],
+  stacks: [
+    { path: ["Repository", "Database"], time: 30 },
+    { path: ["Repository"], time: 15.5 },
+  ],
+};
+
+describe("profile", () => {
+  describe("profileToTable", () => {
+    it("should format entries as an aligned table", () => {
+      expect(profileToTable(report)).toBe(
+        [
+          "Constructor  Creations  Cache hits  Inclusive ms  Exclusive ms",
+          "Database             1           2        30.000        30.000",
+          "Repository           1           0        45.500        15.500",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("profileToJSON", () => {
+    it("should export a report that parses back to the same structure", () => {
+      expect(JSON.parse(profileToJSON(report))).toEqual(report);
+    });
+  });
+
+  describe("profileToFolded", () => {
+    it("should export folded stacks in microseconds", () => {
+      expect(profileToFolded(report)).toBe(
+        ["Repository;Database 30000", "Repository 15500"].join("\n")
+      );
+    });
+
+    it("should escape separators in frame names", () => {
+      const folded = profileToFolded({
+        entries: [],
+        stacks: [{ path: ["a;b", "c d"], time: 1 }],
+      });
+
+      expect(folded).toBe("a_b;c_d 1000");
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { asyncFactory, Box, factory } from "../src";
+import { calls, createTestBox, isolate, stub, TestBox } from "../src/testing";
+
+class Database {
+  constructor() {
+    throw new Error("Database should not be created in tests");
+  }
+
+  find(id: number): { id: number; name: string } | undefined {
+    return { id, name: "real" };
+  }
+
+  save(user: { name: string }) {}
+}
+
+class Mailer {
+  send(to: string, body: string): boolean {
+    return true;
+  }
+}
+
+class UserService {
+  constructor(private db: Database, private mailer: Mailer) {}
+
+  static init(box: Box) {
+    return new UserService(box.get(Database), box.get(Mailer));
+  }
+
+  register(name: string) {
+    this.db.save({ name });
+    this.mailer.send(name, "welcome");
+  }
+
+  name(id: number) {
+    return this.db.find(id)?.name;
+  }
+}
+
+describe("stub", () => {
+  it("should record calls of every prototype method", () => {
+    const db = stub(Database);
+
+    expect(db).toBeInstanceOf(Database);
+    expect(db.find(1)).toBe(undefined);
+    db.save({ name: "Alice" });
+
+    expect(calls(db.find)).toEqual([[1]]);
+    expect(calls(db.save)).toEqual([[{ name: "Alice" }]]);
+  });
+
+  it("should use the given implementation and record its calls", () => {
+    const db = stub(Database, { find: (id) => ({ id, name: "stub" }) });
+
+    expect(db.find(2)).toEqual({ id: 2, name: "stub" });
+    expect(calls(db.find)).toEqual([[2]]);
+  });
+
+  it("should stub factories from the implementation", () => {
+    const Clock = factory(() => ({ now: () => Date.now() }));
+    const clock = stub(Clock, { now: () => 0 });
+
+    expect(clock.now()).toBe(0);
+    expect(calls(clock.now)).toEqual([[]]);
+  });
+
+  it("should reject functions that are not stubbed", () => {
+    expect(() => calls(() => {})).toThrow("Expected a stubbed method");
+  });
+});
+
+describe("createTestBox", () => {
+  it("should stub constructors up front", () => {
+    const box = createTestBox({ stubs: [Database, Mailer] });
+
+    box.get(UserService).register("Alice");
+
+    expect(calls(box.get(Database).save)).toEqual([[{ name: "Alice" }]]);
+    expect(calls(box.get(Mailer).send)).toEqual([["Alice", "welcome"]]);
+  });
+
+  it("should return stubs to configure per test", () => {
+    const box = createTestBox({ stubs: [Mailer] });
+    const db = box.stub(Database, { find: (id) => ({ id, name: "Bob" }) });
+
+    expect(box.get(UserService).name(1)).toBe("Bob");
+    expect(calls(db.find)).toEqual([[1]]);
+  });
+
+  it("should stub async constructors", async () => {
+    const Client = asyncFactory(async () => ({ fetch: (): string => "real" }), {
+      name: "Client",
+    });
+    const box = createTestBox();
+    const client = box.stub(Client, { fetch: () => "stub" });
+
+    expect(await box.getAsync(Client)).toBe(client);
+    expect(client.fetch()).toBe("stub");
+  });
+
+  it("should track resolved and created constructors", () => {
+    const box = createTestBox({ stubs: [Database, Mailer] });
+    box.get(UserService);
+
+    expect(box.wasResolved(Database)).toBe(true);
+    expect(box.wasCreated(Database)).toBe(false);
+    expect(box.wasCreated(UserService)).toBe(true);
+    expect(box.wasResolved(Box)).toBe(false);
+  });
+
+  it("should throw from assertion helpers", () => {
+    const box = createTestBox({ stubs: [Database, Mailer] });
+
+    expect(() => box.assertResolved(UserService)).toThrow(
+      "Expected UserService to be resolved"
+    );
+    box.get(UserService);
+    expect(() => box.assertResolved(UserService)).not.toThrow();
+    expect(() => box.assertNotCreated(Database)).not.toThrow();
+    expect(() => box.assertNotCreated(UserService)).toThrow(
+      "Expected UserService to never be created"
+    );
+  });
+
+  it("should track resolutions in child boxes", () => {
+    const box = createTestBox({ stubs: [Database, Mailer] });
+    box.child().get(UserService);
+
+    expect(box.wasCreated(UserService)).toBe(true);
+  });
+});
+
+describe("isolate", () => {
+  const test = isolate({ stubs: [Database, Mailer] });
+  let previous: TestBox | undefined;
+
+  beforeEach(test.reset);
+  afterEach(test.dispose);
+
+  it("should create a box for each test", () => {
+    previous = test.box;
+    test.box.get(UserService).register("Alice");
+    expect(calls(test.box.get(Mailer).send)).toHaveLength(1);
+  });
+
+  it("should not share boxes between tests", () => {
+    expect(test.box).not.toBe(previous);
+    expect(test.box.wasResolved(UserService)).toBe(false);
+  });
+
+  it("should throw when the box is not set up", async () => {
+    const other = isolate();
+    expect(() => other.box).toThrow("Test box is not set up, call reset()");
+
+    other.reset();
+    await other.dispose();
+    expect(() => other.box).toThrow("Test box is not set up, call reset()");
+  });
+});